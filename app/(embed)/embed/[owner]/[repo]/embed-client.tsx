@@ -0,0 +1,176 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { format } from 'date-fns'
+import ReactMarkdown from 'react-markdown'
+import { AlertTriangle } from 'lucide-react'
+import { markdownExcerpt } from '@/lib/markdown'
+import type { EmbedTheme } from '@/lib/embed'
+import { releasePath, type PublicRelease } from '@/lib/releases'
+
+// Tailwind's dark: variant follows the site's theme switch, which the widget's layout leaves out
+// and a host page could not set through an iframe anyway. The widget takes its colours from the
+// theme parameter instead; "auto" follows the reader's system setting.
+const THEME_CLASSES: Record<EmbedTheme, { page: string; card: string; muted: string; tag: string; prose: string }> = {
+  light: {
+    page: 'bg-white text-gray-900',
+    card: 'border-gray-200',
+    muted: 'text-gray-500',
+    tag: 'bg-blue-100 text-blue-800',
+    prose: '',
+  },
+  dark: {
+    page: 'bg-gray-900 text-gray-100',
+    card: 'border-gray-700',
+    muted: 'text-gray-400',
+    tag: 'bg-blue-900 text-blue-200',
+    prose: 'prose-invert',
+  },
+  auto: {
+    page: 'bg-white text-gray-900 [@media(prefers-color-scheme:dark)]:bg-gray-900 [@media(prefers-color-scheme:dark)]:text-gray-100',
+    card: 'border-gray-200 [@media(prefers-color-scheme:dark)]:border-gray-700',
+    muted: 'text-gray-500 [@media(prefers-color-scheme:dark)]:text-gray-400',
+    tag: 'bg-blue-100 text-blue-800 [@media(prefers-color-scheme:dark)]:bg-blue-900 [@media(prefers-color-scheme:dark)]:text-blue-200',
+    prose: '[@media(prefers-color-scheme:dark)]:prose-invert',
+  },
+}
+
+// Length of release previews in compact mode
+const COMPACT_EXCERPT_LENGTH = 140
+
+// Publish date of the newest release the reader has seen, per repository and branch. Storage is
+// scoped to the embedding site by the browser, so each site tracks its own readers' visits.
+function lastSeenKey(repo: string, branch: string): string {
+  return `relix-embed-last-seen:${repo}@${branch}`
+}
+
+function readLastSeen(key: string): string | null {
+  try {
+    return localStorage.getItem(key)
+  } catch {
+    // Storage can be blocked in third-party iframes
+    return null
+  }
+}
+
+function writeLastSeen(key: string, publishedAt: string) {
+  try {
+    localStorage.setItem(key, publishedAt)
+  } catch {
+    // Without storage every visit counts as the first
+  }
+}
+
+// Tells public/embed.js on the host page about the widget; it ignores other windows' messages
+function notifyHost(message: { type: 'relix:resize'; height: number } | { type: 'relix:new-releases'; count: number }) {
+  if (window.parent !== window) {
+    window.parent.postMessage(message, '*')
+  }
+}
+
+export default function EmbedClient({
+  repo,
+  branch,
+  releases,
+  theme,
+  compact,
+}: {
+  repo: string
+  branch: string
+  releases: PublicRelease[]
+  theme: EmbedTheme
+  compact: boolean
+}) {
+  const rootRef = useRef<HTMLDivElement>(null)
+  // Unknown until mounted; null on the first visit, when nothing is marked as new
+  const [lastSeen, setLastSeen] = useState<string | null | undefined>(undefined)
+  const classes = THEME_CLASSES[theme]
+
+  const isNew = (release: PublicRelease) =>
+    typeof lastSeen === 'string' && new Date(release.publishedAt).getTime() > new Date(lastSeen).getTime()
+
+  useEffect(() => {
+    const key = lastSeenKey(repo, branch)
+    const previous = readLastSeen(key)
+    setLastSeen(previous)
+    if (releases.length > 0) {
+      writeLastSeen(key, releases[0].publishedAt)
+    }
+  }, [repo, branch, releases])
+
+  useEffect(() => {
+    if (lastSeen !== undefined) {
+      notifyHost({ type: 'relix:new-releases', count: releases.filter(isNew).length })
+    }
+  }, [lastSeen, releases])
+
+  // The host script sizes the iframe to the content, so the widget never scrolls on its own
+  useEffect(() => {
+    const root = rootRef.current
+    if (!root) {
+      return
+    }
+    const observer = new ResizeObserver(() => notifyHost({ type: 'relix:resize', height: root.scrollHeight }))
+    observer.observe(root)
+    return () => observer.disconnect()
+  }, [])
+
+  return (
+    <div ref={rootRef} className={`p-4 ${classes.page}`}>
+      {releases.length === 0 ? (
+        <div className={`text-sm font-mono ${classes.muted}`}>No releases yet.</div>
+      ) : (
+        <div className={compact ? 'space-y-3' : 'space-y-6'}>
+          {releases.map((release) => (
+            <article key={release.id} className={`border-b pb-3 last:border-b-0 ${classes.card}`}>
+              <header className="flex flex-wrap items-center gap-2 mb-2">
+                <a
+                  href={releasePath(repo, release.id)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={`px-2 py-0.5 rounded text-sm font-mono hover:underline ${classes.tag}`}
+                >
+                  {release.tag || release.range}
+                </a>
+                {isNew(release) && (
+                  <span className="bg-emerald-600 text-white px-2 py-0.5 rounded text-xs font-mono">New</span>
+                )}
+                {release.hasBreakingChanges && (
+                  <span className="inline-flex items-center gap-1 bg-red-600 text-white px-2 py-0.5 rounded text-xs font-mono">
+                    <AlertTriangle className="h-3 w-3" />
+                    Breaking
+                  </span>
+                )}
+                <time dateTime={release.publishedAt} className={`text-xs ${classes.muted}`}>
+                  {format(new Date(release.publishedAt), 'MMM d, yyyy')}
+                </time>
+              </header>
+              {compact ? (
+                <p className={`text-sm ${classes.muted}`}>{markdownExcerpt(release.markdown, COMPACT_EXCERPT_LENGTH)}</p>
+              ) : (
+                <div className={`prose prose-sm max-w-none ${classes.prose}`}>
+                  <ReactMarkdown
+                    components={{
+                      // Links leave the iframe instead of navigating inside it
+                      a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+                    }}
+                  >
+                    {release.markdown}
+                  </ReactMarkdown>
+                </div>
+              )}
+            </article>
+          ))}
+        </div>
+      )}
+      <a
+        href={`/${repo}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={`block mt-4 text-xs font-mono hover:underline ${classes.muted}`}
+      >
+        Full {repo} changelog on Relix →
+      </a>
+    </div>
+  )
+}
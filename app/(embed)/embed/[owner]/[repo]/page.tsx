@@ -0,0 +1,31 @@
+import EmbedClient from './embed-client'
+import { parseEmbedOptions } from '@/lib/embed'
+import { defaultBranch, listPublicReleases, transformReleaseSlice } from '@/lib/releases'
+import { getReleaseStore } from '@/lib/storage'
+
+// Iframe widget with a repository's most recent releases on one branch, loaded by public/embed.js.
+// Like the changelog page it renders public releases only, as embeds carry no credentials.
+export default async function EmbedPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ owner: string; repo: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  const { owner, repo } = await params
+  const repoName = `${owner}/${repo}`
+  const options = parseEmbedOptions(await searchParams)
+
+  const releases = (await listPublicReleases(getReleaseStore(), repoName, options.branch)).map(transformReleaseSlice)
+  const branch = options.branch ?? defaultBranch([...new Set(releases.map(release => release.branch))])
+
+  return (
+    <EmbedClient
+      repo={repoName}
+      branch={branch}
+      releases={releases.filter(release => release.branch === branch).slice(0, options.limit)}
+      theme={options.theme}
+      compact={options.compact}
+    />
+  )
+}
@@ -0,0 +1,21 @@
+import type { Metadata } from "next"
+import "../globals.css"
+
+// Root layout of the embeddable widget. It runs inside other sites' pages, so it leaves out the
+// site's analytics, sign-in and toasts: readers of those sites are not tracked and no session is loaded.
+export const metadata: Metadata = {
+  // Widgets live inside other sites' pages and should not show up in search results
+  robots: { index: false, follow: false },
+}
+
+export default function EmbedLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <html lang="en">
+      <body>{children}</body>
+    </html>
+  );
+}
@@ -0,0 +1,798 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { format } from 'date-fns'
+import ReactMarkdown from 'react-markdown'
+import { ExternalLink, Copy, Check, Sun, Moon, AlertTriangle, Eye, EyeOff, Trash2, History, RotateCcw, ShieldCheck, Users, Rss, Code } from 'lucide-react'
+import { ThemeProvider } from "@/components/theme-provider"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { AuthButton } from "@/components/auth-button"
+import { CopyLinkButton } from "@/components/copy-link-button"
+import { useAuth } from "@/components/auth-provider"
+import { useTheme } from "next-themes"
+import Link from 'next/link'
+import { describePathScope, isEmptyPathScope, type PathScope } from '@/lib/path-scope'
+import { diffLines } from '@/lib/diff'
+import { authFetch } from '@/lib/auth/client'
+import { defaultBranch, releasePath } from '@/lib/releases'
+
+type Release = {
+  id: string
+  repo: string
+  tag: string | null
+  range: string
+  publishedAt: string
+  markdown: string
+  branch: string
+  hasBreakingChanges: boolean
+  pathScope: PathScope
+  unpublished: boolean
+  verified: boolean
+  privateRepo: boolean
+}
+
+type Revision = {
+  revision: number
+  author: string | null
+  createdAt: string
+  restoredFrom: number | null
+}
+
+// Theme toggle component
+function ThemeToggle() {
+  const { theme, setTheme } = useTheme()
+  const [mounted, setMounted] = useState(false)
+
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  if (!mounted) {
+    return <div className="w-9 h-9" />
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
+      className="w-9 h-9 p-0"
+    >
+      {theme === "dark" ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+    </Button>
+  )
+}
+
+// Loading skeleton component
+function LoadingSkeleton() {
+  return (
+    <div className="space-y-6">
+      {[1, 2, 3].map((i) => (
+        <div key={i} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 animate-pulse">
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <div className="h-6 w-20 bg-gray-200 dark:bg-gray-700 rounded"></div>
+                <div className="h-4 w-24 bg-gray-200 dark:bg-gray-700 rounded"></div>
+              </div>
+              <div className="h-9 w-9 bg-gray-200 dark:bg-gray-700 rounded"></div>
+            </div>
+            <div className="space-y-2">
+              <div className="h-4 w-full bg-gray-200 dark:bg-gray-700 rounded"></div>
+              <div className="h-4 w-3/4 bg-gray-200 dark:bg-gray-700 rounded"></div>
+              <div className="h-4 w-1/2 bg-gray-200 dark:bg-gray-700 rounded"></div>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Empty state component
+function EmptyState({ slug }: { slug: string }) {
+  return (
+    <div className="text-center py-12">
+      <div className="mb-6 text-6xl">📝</div>
+      <h3 className="text-xl font-mono font-semibold mb-4 text-gray-800 dark:text-gray-200">
+        No changelogs found for {slug}
+      </h3>
+      <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-md mx-auto font-mono">
+        This repository doesn't have any changelogs yet. You can create the first one using our AI-powered console.
+      </p>
+      <Link
+        href={`/console?path=${slug}`}
+        className="inline-flex items-center gap-2 bg-gradient-to-r from-emerald-600 to-[#107C41] hover:from-emerald-700 hover:to-green-800 text-white px-6 py-3 rounded-lg font-mono font-medium shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-plus">
+          <path d="M5 12h14"/>
+          <path d="M12 5v14"/>
+        </svg>
+        Create First Changelog
+      </Link>
+    </div>
+  )
+}
+
+// Edit history dialog: revision list, diff between two revisions and restore
+function RevisionHistory({ release, onRestored }: { release: Release; onRestored: () => void }) {
+  const { user } = useAuth()
+  const [open, setOpen] = useState(false)
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [markdownByRevision, setMarkdownByRevision] = useState<Record<number, string>>({})
+  const [fromRevision, setFromRevision] = useState<number | null>(null)
+  const [toRevision, setToRevision] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [diffLoading, setDiffLoading] = useState(false)
+  const [diffError, setDiffError] = useState<string | null>(null)
+
+  const readJson = async (response: Response) => {
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`)
+    }
+    return response.json()
+  }
+
+  // Load the revision list, comparing the latest revision with the one before it
+  const fetchRevisions = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data: Revision[] = await readJson(await authFetch(`/api/releases/revisions?releaseId=${encodeURIComponent(release.id)}`))
+      setRevisions(data)
+      const latest = data[data.length - 1]?.revision ?? null
+      setToRevision(latest)
+      setFromRevision(data.length > 1 ? data[data.length - 2].revision : latest)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (open) {
+      fetchRevisions()
+    }
+  }, [open])
+
+  // Fetch the markdown of the compared revisions on demand
+  const fetchDiffMarkdown = async () => {
+    const missing = [fromRevision, toRevision].filter((revision): revision is number =>
+      revision !== null && markdownByRevision[revision] === undefined
+    )
+    if (missing.length === 0) {
+      return
+    }
+
+    try {
+      setDiffLoading(true)
+      setDiffError(null)
+      const entries = await Promise.all(missing.map(async (revision) => {
+        const data = await readJson(await authFetch(`/api/releases/revisions?releaseId=${encodeURIComponent(release.id)}&revision=${revision}`))
+        return [revision, data.markdown as string] as const
+      }))
+      setMarkdownByRevision((current) => ({ ...current, ...Object.fromEntries(entries) }))
+    } catch (err) {
+      setDiffError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setDiffLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchDiffMarkdown()
+  }, [fromRevision, toRevision])
+
+  const handleRestore = async (revision: number) => {
+    try {
+      setIsRestoring(true)
+      setError(null)
+      await readJson(await authFetch('/api/releases/revisions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ releaseId: release.id, revision }),
+      }))
+      await fetchRevisions()
+      onRestored()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const latestRevision = revisions[revisions.length - 1]?.revision
+  const before = fromRevision !== null ? markdownByRevision[fromRevision] : undefined
+  const after = toRevision !== null ? markdownByRevision[toRevision] : undefined
+  const diff = before !== undefined && after !== undefined ? diffLines(before, after) : null
+
+  const revisionSelect = (value: number | null, onChange: (revision: number) => void) => (
+    <Select value={value !== null ? String(value) : undefined} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="w-28 font-mono">
+        <SelectValue placeholder="Revision" />
+      </SelectTrigger>
+      <SelectContent>
+        {revisions.map((revision) => (
+          <SelectItem key={revision.revision} value={String(revision.revision)}>
+            #{revision.revision}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button
+          className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+          title="View edit history"
+        >
+          <History className="h-4 w-4" />
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-mono">Edit history</DialogTitle>
+          <DialogDescription>
+            Every edit is kept as a revision. Restoring an older revision adds it back as the newest one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="text-sm text-red-700 dark:text-red-300">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="text-sm text-gray-600 dark:text-gray-400 font-mono">Loading history...</div>
+        ) : revisions.length === 0 ? (
+          <div className="text-sm text-gray-600 dark:text-gray-400 font-mono">No edits have been recorded for this changelog yet.</div>
+        ) : (
+          <div className="space-y-4">
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+              {[...revisions].reverse().map((revision) => (
+                <li key={revision.revision} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <div className="font-mono">
+                    <span className="font-semibold">#{revision.revision}</span>
+                    <span className="ml-2 text-gray-600 dark:text-gray-400">
+                      {format(new Date(revision.createdAt), 'MMM d, yyyy HH:mm')}
+                      {revision.author && ` by ${revision.author}`}
+                      {revision.restoredFrom !== null && ` (restored from #${revision.restoredFrom})`}
+                    </span>
+                  </div>
+                  {revision.revision === latestRevision ? (
+                    <span className="text-xs font-mono text-gray-500">Current</span>
+                  ) : user && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isRestoring}
+                      onClick={() => handleRestore(revision.revision)}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex items-center gap-2 text-sm font-mono">
+              <span>Compare</span>
+              {revisionSelect(fromRevision, setFromRevision)}
+              <span>to</span>
+              {revisionSelect(toRevision, setToRevision)}
+            </div>
+
+            {diff ? (
+              <pre className="text-xs font-mono border border-gray-200 dark:border-gray-700 rounded-md overflow-x-auto">
+                {diff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={
+                      line.type === 'added'
+                        ? 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200 px-3'
+                        : line.type === 'removed'
+                          ? 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 px-3'
+                          : 'px-3'
+                    }
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                    {line.text}
+                  </div>
+                ))}
+              </pre>
+            ) : diffError ? (
+              <div className="flex items-center justify-between gap-2 text-sm text-red-700 dark:text-red-300">
+                <span>Could not load the diff: {diffError}</span>
+                <Button variant="outline" size="sm" disabled={diffLoading} onClick={fetchDiffMarkdown}>
+                  Retry
+                </Button>
+              </div>
+            ) : diffLoading && (
+              <div className="text-sm text-gray-600 dark:text-gray-400 font-mono">Loading diff...</div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Release card component
+function ReleaseCard({ release, onChanged }: { release: Release; onChanged: () => void }) {
+  const { user } = useAuth()
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [isCopied, setIsCopied] = useState(false)
+  const [isUpdating, setIsUpdating] = useState(false)
+  // Permalink pages render on the server, which cannot see unpublished or private-repository releases
+  const hasPermalink = !release.unpublished && !release.privateRepo
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  // Run an unpublish/republish/delete request, then reload the list
+  const runAction = async (request: () => Promise<Response>) => {
+    setIsUpdating(true)
+    setActionError(null)
+    try {
+      const response = await request()
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`)
+      }
+      onChanged()
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const handleTogglePublished = () => runAction(() =>
+    authFetch('/api/releases', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: release.id, published: release.unpublished }),
+    })
+  )
+
+  const handleDelete = () => runAction(() =>
+    authFetch(`/api/releases?id=${encodeURIComponent(release.id)}`, { method: 'DELETE' })
+  )
+
+  const handleCopyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(release.markdown)
+      setIsCopied(true)
+      setTimeout(() => setIsCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy:', error)
+    }
+  }
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 ${release.unpublished ? 'opacity-60 border-dashed' : ''}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          {hasPermalink ? (
+            <Link
+              href={releasePath(release.repo, release.id)}
+              className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded text-sm font-mono hover:underline"
+            >
+              {release.tag || release.range}
+            </Link>
+          ) : (
+            <span className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded text-sm font-mono">
+              {release.tag || release.range}
+            </span>
+          )}
+          {!isEmptyPathScope(release.pathScope) && (
+            <span className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-1 rounded text-sm font-mono">
+              {describePathScope(release.pathScope)}
+            </span>
+          )}
+          {release.verified ? (
+            <span
+              className="inline-flex items-center gap-1 bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 px-2 py-1 rounded text-sm font-mono"
+              title="Published by a maintainer with write access to the repository"
+            >
+              <ShieldCheck className="h-3 w-3" />
+              Verified maintainer
+            </span>
+          ) : (
+            <span
+              className="inline-flex items-center gap-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-1 rounded text-sm font-mono"
+              title="The publisher's write access to the repository was not verified"
+            >
+              <Users className="h-3 w-3" />
+              Community
+            </span>
+          )}
+          {release.hasBreakingChanges && (
+            <span className="inline-flex items-center gap-1 bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 px-2 py-1 rounded text-sm font-mono">
+              <AlertTriangle className="h-3 w-3" />
+              Breaking
+            </span>
+          )}
+          {release.unpublished && (
+            <span className="bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 px-2 py-1 rounded text-sm font-mono">
+              Unpublished
+            </span>
+          )}
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {format(new Date(release.publishedAt), 'MMMM d, yyyy')}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleCopyMarkdown}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+            title="Copy markdown content"
+          >
+            {isCopied ? (
+              <Check className="h-4 w-4 text-green-600 dark:text-green-400" />
+            ) : (
+              <Copy className="h-4 w-4" />
+            )}
+          </button>
+          {hasPermalink && <CopyLinkButton path={releasePath(release.repo, release.id)} />}
+          <RevisionHistory release={release} onRestored={onChanged} />
+          {user && (
+            <>
+              <button
+                onClick={handleTogglePublished}
+                disabled={isUpdating}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50"
+                title={release.unpublished ? "Republish this changelog" : "Unpublish this changelog"}
+              >
+                {release.unpublished ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+              </button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <button
+                    disabled={isUpdating}
+                    className="p-2 hover:bg-red-50 dark:hover:bg-red-900/30 text-red-600 dark:text-red-400 rounded-md transition-colors disabled:opacity-50"
+                    title="Delete this changelog"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this changelog?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The release disappears from this page and its commits can be published again. To hide it temporarily, unpublish it instead.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700 text-white">
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </>
+          )}
+        </div>
+      </div>
+
+      {actionError && (
+        <div className="mb-4 text-sm text-red-700 dark:text-red-300">{actionError}</div>
+      )}
+
+      <div className={`prose prose-sm dark:prose-invert max-w-none ${!isExpanded ? 'max-h-96 overflow-hidden' : ''}`}>
+        <ReactMarkdown>{release.markdown}</ReactMarkdown>
+      </div>
+      
+      {release.markdown.length > 500 && (
+        <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
+          >
+            {isExpanded ? 'Show less' : 'Show more'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function sortedBranches(releases: Release[]): string[] {
+  return [...new Set(releases.map(r => r.branch))].sort()
+}
+
+// Releases of one branch, newest first
+function branchReleases(releases: Release[], branch: string): Release[] {
+  return releases
+    .filter(r => r.branch === branch)
+    .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
+}
+
+// Copies the <script> tag that embeds the latest releases of this branch in another site
+function CopyEmbedCodeButton({ slug, branch }: { slug: string; branch: string }) {
+  const [isCopied, setIsCopied] = useState(false)
+
+  const handleCopy = async () => {
+    const branchAttribute = branch ? ` data-branch="${branch}"` : ''
+    try {
+      await navigator.clipboard.writeText(
+        `<script src="${window.location.origin}/embed.js" data-repo="${slug}"${branchAttribute} async></script>`
+      )
+      setIsCopied(true)
+      setTimeout(() => setIsCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy:', error)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleCopy}
+      className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+      title="Copy code to embed this changelog in your site"
+    >
+      {isCopied ? (
+        <Check className="h-4 w-4 text-green-600 dark:text-green-400" />
+      ) : (
+        <Code className="h-4 w-4" />
+      )}
+    </button>
+  )
+}
+
+// Client component for interactivity. The server renders it with the public releases, which are
+// reloaded once a signed-in user may see more (private repositories, unpublished releases).
+export default function ChangelogClient({ slug, initialReleases }: { slug: string; initialReleases: Release[] }) {
+  const { user } = useAuth()
+  const initialBranch = defaultBranch(sortedBranches(initialReleases))
+  const [allReleases, setAllReleases] = useState<Release[]>(initialReleases)
+  const [releases, setReleases] = useState<Release[]>(() => branchReleases(initialReleases, initialBranch))
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [branches, setBranches] = useState<string[]>(() => sortedBranches(initialReleases))
+  const [selectedBranch, setSelectedBranch] = useState<string>(initialBranch)
+  const [showUnpublished, setShowUnpublished] = useState(false)
+  const renderedOnServer = useRef(true)
+
+  const fetchAllReleases = async () => {
+    try {
+      // Reloads keep the current releases on screen
+      setLoading(allReleases.length === 0)
+      setError(null)
+      
+      const response = await authFetch(`/api/releases?repo=${slug}${showUnpublished ? '&includeUnpublished=true' : ''}`)
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+      
+      const data: Release[] = await response.json()
+      setAllReleases(data)
+
+      const uniqueBranches = sortedBranches(data)
+      setBranches(uniqueBranches)
+
+      // Reloads after an unpublish or delete keep the current branch if it still has releases
+      if (uniqueBranches.length > 0 && !uniqueBranches.includes(selectedBranch)) {
+        setSelectedBranch(defaultBranch(uniqueBranches))
+      } else if (uniqueBranches.length === 0) {
+        setReleases([])
+      }
+    } catch (err) {
+      console.error('Error fetching releases:', err)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Unpublished releases are only listed for signed-in users
+  useEffect(() => {
+    if (!user && showUnpublished) {
+      setShowUnpublished(false)
+      return
+    }
+    // Anonymous visitors see exactly what the server rendered
+    if (renderedOnServer.current) {
+      renderedOnServer.current = false
+      if (!user) {
+        return
+      }
+    }
+    fetchAllReleases()
+  }, [slug, showUnpublished, user])
+
+  useEffect(() => {
+    if (selectedBranch && allReleases.length > 0) {
+      setReleases(branchReleases(allReleases, selectedBranch))
+    } else if (allReleases.length === 0) {
+      setReleases([])
+    }
+  }, [selectedBranch, allReleases])
+
+
+  const handleRetry = () => {
+    fetchAllReleases()
+  }
+
+  // Parse owner/repo from slug
+  const [owner, repo] = slug.split('/')
+
+  return (
+    <ThemeProvider
+      attribute="class"
+      defaultTheme="system"
+      enableSystem
+      disableTransitionOnChange
+    >
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 flex flex-col">
+        {/* Navigation */}
+        <nav className="sticky top-0 z-50 border-b bg-background shadow-sm">
+          <div className="container mx-auto px-6 flex h-14 items-center">
+            <div className="mr-4 flex">
+              <Link href="/" className="flex items-center space-x-2">
+                <span className="font-mono font-bold text-xl bg-gradient-to-r from-emerald-600 via-green-700 to-[#107C41] bg-clip-text text-transparent hover:from-emerald-500 hover:via-green-600 hover:to-green-600 transition-all duration-300">
+                  Relix
+                </span>
+              </Link>
+            </div>
+
+            <div className="flex flex-1 items-center justify-end">
+              <nav className="flex items-center space-x-6">
+                <Link
+                  href="/"
+                  className="text-sm font-mono font-medium text-muted-foreground hover:bg-gradient-to-r hover:from-emerald-600 hover:to-[#107C41] hover:bg-clip-text hover:text-transparent transition-all duration-300"
+                >
+                  Repos
+                </Link>
+                <Link
+                  href="/console"
+                  className="text-sm font-mono font-medium text-muted-foreground hover:bg-gradient-to-r hover:from-emerald-600 hover:to-[#107C41] hover:bg-clip-text hover:text-transparent transition-all duration-300"
+                >
+                  Console
+                </Link>
+              </nav>
+              <div className="ml-8 pl-4 border-l border-slate-300 dark:border-slate-600 flex items-center gap-2">
+                <AuthButton />
+                <ThemeToggle />
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        {/* Main Content */}
+        <div className="flex-1">
+          <div className="container mx-auto px-6 py-8"> {/* Updated padding for alignment - removed max-w-4xl for full width */}
+            {/* Hero Header */}
+            <header className="mb-8">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                  <h1 className="text-3xl font-bold font-mono">
+                    <span className="text-gray-600 dark:text-gray-400">{owner}</span>
+                    <span className="text-gray-900 dark:text-white">/{repo}</span>
+                  </h1>
+                  <a
+                    href={`https://github.com/${slug}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+                    title="View repository on GitHub"
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                  <a
+                    href={`/${slug}/feed.xml${selectedBranch ? `?branch=${encodeURIComponent(selectedBranch)}` : ''}`}
+                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+                    title="Subscribe to this changelog (RSS)"
+                  >
+                    <Rss className="h-4 w-4" />
+                  </a>
+                  <CopyEmbedCodeButton slug={slug} branch={selectedBranch} />
+                </div>
+                <div className="flex items-center gap-4">
+                  {user && (
+                    <div className="flex items-center gap-2">
+                      <Switch id="show-unpublished" checked={showUnpublished} onCheckedChange={setShowUnpublished} />
+                      <Label htmlFor="show-unpublished" className="font-mono text-sm whitespace-nowrap">
+                        Show unpublished
+                      </Label>
+                    </div>
+                  )}
+                  {branches.length > 0 && (
+                    <div className="ml-6 w-48">
+                      <Select
+                        value={selectedBranch}
+                        onValueChange={setSelectedBranch}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a branch" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {branches.map((branch) => (
+                            <SelectItem key={branch} value={branch}>
+                              {branch}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </header>
+
+            {/* Error State */}
+            {error && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-6">
+                <div className="flex items-center justify-between">
+                  <span className="text-red-800 dark:text-red-200">{error}</span>
+                  <button
+                    onClick={handleRetry}
+                    className="bg-red-100 dark:bg-red-800 text-red-800 dark:text-red-200 px-3 py-1 rounded text-sm hover:bg-red-200 dark:hover:bg-red-700 transition-colors"
+                  >
+                    Retry
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Content */}
+            <main>
+              {loading ? (
+                <LoadingSkeleton />
+              ) : releases.length === 0 ? (
+                <EmptyState slug={slug} />
+              ) : (
+                <div className="space-y-6">
+                  {releases.map((release) => (
+                    <ReleaseCard key={release.id} release={release} onChanged={fetchAllReleases} />
+                  ))}
+                </div>
+              )}
+            </main>
+          </div>
+        </div>
+        
+        {/* Footer */}
+        <footer className="border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 mt-auto">
+          <div className="container mx-auto px-6 flex py-4 items-center justify-center">
+            <div className="text-center">
+              <div className="text-sm font-mono text-muted-foreground">
+                © 2025 Relix. AI-powered changelog generator.
+              </div>
+              <div className="text-sm font-mono text-muted-foreground mt-1">
+                Made with ❤️ for developers
+              </div>
+            </div>
+          </div>
+        </footer>
+      </div>
+    </ThemeProvider>
+  )
+} 
\ No newline at end of file
@@ -0,0 +1,209 @@
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import ChangelogClient from './changelog-client'
+import ReleaseClient, { ReleaseNeighbor } from './release-client'
+import { markdownExcerpt } from '@/lib/markdown'
+import { findPublishedRelease, listPublicReleases, releasePath, transformReleaseSlice } from '@/lib/releases'
+import { getSiteUrl, OG_IMAGE_SIZE, ogImagePath, SITE_NAME } from '@/lib/site'
+import { changelogStructuredData, releaseStructuredData, releaseTitle, serializeJsonLd } from '@/lib/structured-data'
+import { getReleaseStore, ReleaseSlice } from '@/lib/storage'
+
+type PageProps = {
+  params: Promise<{ slug: string[] }>
+  searchParams: Promise<{ branch?: string | string[] }>
+}
+
+// Length of meta descriptions, which search engines truncate at about this many characters
+const DESCRIPTION_LENGTH = 160
+
+// What a URL points at: a repository's changelog, a single release, or nothing
+type PageTarget =
+  | { kind: 'changelog'; repoName: string }
+  | { kind: 'release'; repoName: string; ref: string; branch?: string }
+  | null
+
+async function resolveTarget({ params, searchParams }: PageProps): Promise<PageTarget> {
+  const { slug } = await params
+
+  // Validate URL format: must have at least 2 segments (owner/repo)
+  if (slug.length < 2) {
+    return null
+  }
+
+  // Release permalinks: owner/repo/releases/<id or tag>, where tags may contain slashes
+  if (slug.length >= 4 && slug[2] === 'releases') {
+    let ref: string
+    try {
+      ref = decodeURIComponent(slug.slice(3).join('/'))
+    } catch {
+      return null
+    }
+    const { branch } = await searchParams
+    return {
+      kind: 'release',
+      repoName: slug.slice(0, 2).join('/'),
+      ref,
+      branch: typeof branch === 'string' && branch ? branch : undefined,
+    }
+  }
+
+  // Reconstruct the repository name from the slug array
+  const repoName = slug.join('/')
+
+  // Prevent "repos" from being treated as a repository slug
+  if (repoName === 'repos') {
+    return null
+  }
+
+  return { kind: 'changelog', repoName }
+}
+
+// The viewer's GitHub token is not available when rendering on the server, so only releases of
+// public repositories are rendered here; the client loads private ones after hydration.
+// Both loaders are cached per request so metadata and page share one storage read.
+const loadChangelogReleases = cache((repoName: string) => listPublicReleases(getReleaseStore(), repoName))
+
+const loadRelease = cache(async (repoName: string, ref: string, branch?: string) => {
+  const release = await findPublishedRelease(getReleaseStore(), repoName, ref, branch)
+  return release && !release.private_repo ? release : null
+})
+
+export async function generateMetadata(props: PageProps): Promise<Metadata> {
+  // Metadata resolves before the page streams, so a missing page still gets a 404 status here
+  const target = await resolveTarget(props)
+  if (!target) {
+    notFound()
+  }
+  const siteUrl = await getSiteUrl()
+
+  if (target.kind === 'release') {
+    const slice = await loadRelease(target.repoName, target.ref, target.branch)
+    if (!slice) {
+      notFound()
+    }
+    const release = transformReleaseSlice(slice)
+    const title = releaseTitle(release)
+    const description = markdownExcerpt(release.markdown, DESCRIPTION_LENGTH) || `Release notes for ${title}`
+    const url = `${siteUrl}${releasePath(release.repo, release.id)}`
+    const image = { url: `${siteUrl}${ogImagePath(release.repo, release.id)}`, ...OG_IMAGE_SIZE, alt: title }
+    return {
+      title,
+      description,
+      // Tag URLs are aliases of the id permalink
+      alternates: { canonical: url },
+      openGraph: { type: 'article', siteName: SITE_NAME, title, description, url, publishedTime: release.publishedAt, images: [image] },
+      twitter: { card: 'summary_large_image', title, description, images: [image] },
+    }
+  }
+
+  const { repoName } = target
+  const releases = (await loadChangelogReleases(repoName)).map(transformReleaseSlice)
+  const title = `${repoName} changelog`
+  let description = `Release notes for ${repoName}.`
+  if (releases.length > 0) {
+    const latest = releases[0]
+    description += ` Latest: ${latest.tag || latest.range}.`
+    description = `${description} ${markdownExcerpt(latest.markdown, Math.max(DESCRIPTION_LENGTH - description.length - 1, 40))}`.trimEnd()
+  }
+  const url = `${siteUrl}/${repoName}`
+  const image = { url: `${siteUrl}${ogImagePath(repoName)}`, ...OG_IMAGE_SIZE, alt: title }
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: url,
+      types: {
+        'application/rss+xml': `${url}/feed.xml`,
+        'application/atom+xml': `${url}/atom.xml`,
+        'application/feed+json': `${url}/feed.json`,
+      },
+    },
+    openGraph: { type: 'website', siteName: SITE_NAME, title, description, url, images: [image] },
+    twitter: { card: 'summary_large_image', title, description, images: [image] },
+    // Empty changelogs are not worth indexing
+    ...(releases.length === 0 && { robots: { index: false } }),
+  }
+}
+
+// Navigation entry for a neighbouring release
+function toNeighbor(slice: ReleaseSlice | undefined): ReleaseNeighbor | null {
+  if (!slice) {
+    return null
+  }
+  const release = transformReleaseSlice(slice)
+  return {
+    path: releasePath(release.repo, release.id),
+    label: release.tag || release.range,
+    publishedAt: release.publishedAt,
+  }
+}
+
+function JsonLdScript({ data }: { data: Record<string, unknown> }) {
+  return <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }} />
+}
+
+// Single release at /{owner}/{repo}/releases/{id or head tag}
+async function ReleasePage({ repoName, releaseRef, branch }: { repoName: string; releaseRef: string; branch?: string }) {
+  const slice = await loadRelease(repoName, releaseRef, branch)
+  if (!slice) {
+    notFound()
+  }
+
+  // Releases on the same branch, newest first
+  const siblings = await getReleaseStore().listReleases({ repo: repoName, branch: slice.branch })
+  const index = siblings.findIndex(sibling => sibling.id === slice.id)
+
+  const release = transformReleaseSlice(slice)
+  const path = releasePath(repoName, slice.id)
+  const siteUrl = await getSiteUrl()
+
+  return (
+    <>
+      <JsonLdScript
+        data={releaseStructuredData(release, `${siteUrl}${path}`, markdownExcerpt(release.markdown, DESCRIPTION_LENGTH))}
+      />
+      <ReleaseClient
+        slug={repoName}
+        release={release}
+        path={path}
+        newer={index > 0 ? toNeighbor(siblings[index - 1]) : null}
+        older={index >= 0 ? toNeighbor(siblings[index + 1]) : null}
+      />
+    </>
+  )
+}
+
+// A repository's changelog, rendered with its public releases so crawlers see the content
+async function RepoChangelogPage({ repoName }: { repoName: string }) {
+  const releases = (await loadChangelogReleases(repoName)).map(transformReleaseSlice)
+  const siteUrl = await getSiteUrl()
+
+  return (
+    <>
+      {releases.length > 0 && (
+        <JsonLdScript
+          data={changelogStructuredData(
+            repoName,
+            `${siteUrl}/${repoName}`,
+            releases.map(release => ({ release, url: `${siteUrl}${releasePath(repoName, release.id)}` }))
+          )}
+        />
+      )}
+      <ChangelogClient slug={repoName} initialReleases={releases} />
+    </>
+  )
+}
+
+export default async function ChangelogPage(props: PageProps) {
+  const target = await resolveTarget(props)
+  if (!target) {
+    notFound()
+  }
+
+  if (target.kind === 'release') {
+    return <ReleasePage repoName={target.repoName} releaseRef={target.ref} branch={target.branch} />
+  }
+
+  return <RepoChangelogPage repoName={target.repoName} />
+}
@@ -0,0 +1,247 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import ReactMarkdown from 'react-markdown'
+import { ArrowLeft, ChevronLeft, ChevronRight, Copy, Check, Sun, Moon, AlertTriangle, ShieldCheck, Users, GitBranch } from 'lucide-react'
+import { ThemeProvider } from "@/components/theme-provider"
+import { Button } from "@/components/ui/button"
+import { AuthButton } from "@/components/auth-button"
+import { CopyLinkButton } from "@/components/copy-link-button"
+import { useTheme } from "next-themes"
+import Link from 'next/link'
+import { describePathScope, isEmptyPathScope } from '@/lib/path-scope'
+import type { PublicRelease } from '@/lib/releases'
+
+// Adjacent release on the same branch, for prev/next navigation
+export type ReleaseNeighbor = {
+  path: string
+  label: string
+  publishedAt: string
+}
+
+// Theme toggle component
+function ThemeToggle() {
+  const { theme, setTheme } = useTheme()
+  const [mounted, setMounted] = useState(false)
+
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  if (!mounted) {
+    return <div className="w-9 h-9" />
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
+      className="w-9 h-9 p-0"
+    >
+      {theme === "dark" ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+    </Button>
+  )
+}
+
+// Single release page, server-rendered from the props the route loads
+export default function ReleaseClient({
+  slug,
+  release,
+  path,
+  newer,
+  older,
+}: {
+  slug: string
+  release: PublicRelease
+  path: string
+  newer: ReleaseNeighbor | null
+  older: ReleaseNeighbor | null
+}) {
+  const [isCopied, setIsCopied] = useState(false)
+
+  const handleCopyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(release.markdown)
+      setIsCopied(true)
+      setTimeout(() => setIsCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy:', error)
+    }
+  }
+
+  // Parse owner/repo from slug
+  const [owner, repo] = slug.split('/')
+
+  return (
+    <ThemeProvider
+      attribute="class"
+      defaultTheme="system"
+      enableSystem
+      disableTransitionOnChange
+    >
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 flex flex-col">
+        {/* Navigation */}
+        <nav className="sticky top-0 z-50 border-b bg-background shadow-sm">
+          <div className="container mx-auto px-6 flex h-14 items-center">
+            <div className="mr-4 flex">
+              <Link href="/" className="flex items-center space-x-2">
+                <span className="font-mono font-bold text-xl bg-gradient-to-r from-emerald-600 via-green-700 to-[#107C41] bg-clip-text text-transparent hover:from-emerald-500 hover:via-green-600 hover:to-green-600 transition-all duration-300">
+                  Relix
+                </span>
+              </Link>
+            </div>
+
+            <div className="flex flex-1 items-center justify-end">
+              <nav className="flex items-center space-x-6">
+                <Link
+                  href="/"
+                  className="text-sm font-mono font-medium text-muted-foreground hover:bg-gradient-to-r hover:from-emerald-600 hover:to-[#107C41] hover:bg-clip-text hover:text-transparent transition-all duration-300"
+                >
+                  Repos
+                </Link>
+                <Link
+                  href="/console"
+                  className="text-sm font-mono font-medium text-muted-foreground hover:bg-gradient-to-r hover:from-emerald-600 hover:to-[#107C41] hover:bg-clip-text hover:text-transparent transition-all duration-300"
+                >
+                  Console
+                </Link>
+              </nav>
+              <div className="ml-8 pl-4 border-l border-slate-300 dark:border-slate-600 flex items-center gap-2">
+                <AuthButton />
+                <ThemeToggle />
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        {/* Main Content */}
+        <div className="flex-1">
+          <div className="container mx-auto px-6 py-8">
+            <Link
+              href={`/${slug}`}
+              className="inline-flex items-center gap-2 text-sm font-mono text-muted-foreground hover:text-foreground mb-6"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span>
+                <span className="text-gray-600 dark:text-gray-400">{owner}</span>/{repo} changelog
+              </span>
+            </Link>
+
+            <article className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+              <header className="flex items-center justify-between mb-6">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h1 className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded text-lg font-mono font-semibold">
+                    {release.tag || release.range}
+                  </h1>
+                  <span className="inline-flex items-center gap-1 text-sm font-mono text-gray-600 dark:text-gray-400">
+                    <GitBranch className="h-3 w-3" />
+                    {release.branch}
+                  </span>
+                  {!isEmptyPathScope(release.pathScope) && (
+                    <span className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-1 rounded text-sm font-mono">
+                      {describePathScope(release.pathScope)}
+                    </span>
+                  )}
+                  {release.verified ? (
+                    <span
+                      className="inline-flex items-center gap-1 bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 px-2 py-1 rounded text-sm font-mono"
+                      title="Published by a maintainer with write access to the repository"
+                    >
+                      <ShieldCheck className="h-3 w-3" />
+                      Verified maintainer
+                    </span>
+                  ) : (
+                    <span
+                      className="inline-flex items-center gap-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-1 rounded text-sm font-mono"
+                      title="The publisher's write access to the repository was not verified"
+                    >
+                      <Users className="h-3 w-3" />
+                      Community
+                    </span>
+                  )}
+                  {release.hasBreakingChanges && (
+                    <span className="inline-flex items-center gap-1 bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 px-2 py-1 rounded text-sm font-mono">
+                      <AlertTriangle className="h-3 w-3" />
+                      Breaking
+                    </span>
+                  )}
+                  <time dateTime={release.publishedAt} className="text-sm text-gray-600 dark:text-gray-400">
+                    {format(new Date(release.publishedAt), 'MMMM d, yyyy')}
+                  </time>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={handleCopyMarkdown}
+                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+                    title="Copy markdown content"
+                  >
+                    {isCopied ? (
+                      <Check className="h-4 w-4 text-green-600 dark:text-green-400" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                  </button>
+                  <CopyLinkButton path={path} />
+                </div>
+              </header>
+
+              <div className="prose prose-sm dark:prose-invert max-w-none">
+                <ReactMarkdown>{release.markdown}</ReactMarkdown>
+              </div>
+            </article>
+
+            {/* Newer and older releases on the same branch */}
+            <nav className="mt-6 grid grid-cols-2 gap-4">
+              <div>
+                {older && (
+                  <Link
+                    href={older.path}
+                    className="flex items-center gap-2 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 hover:border-emerald-500 transition-colors"
+                  >
+                    <ChevronLeft className="h-4 w-4 shrink-0" />
+                    <div className="min-w-0">
+                      <div className="text-xs text-muted-foreground font-mono">Previous release</div>
+                      <div className="font-mono truncate">{older.label}</div>
+                      <div className="text-xs text-muted-foreground">{format(new Date(older.publishedAt), 'MMM d, yyyy')}</div>
+                    </div>
+                  </Link>
+                )}
+              </div>
+              <div>
+                {newer && (
+                  <Link
+                    href={newer.path}
+                    className="flex items-center justify-end gap-2 text-right bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 hover:border-emerald-500 transition-colors"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-xs text-muted-foreground font-mono">Next release</div>
+                      <div className="font-mono truncate">{newer.label}</div>
+                      <div className="text-xs text-muted-foreground">{format(new Date(newer.publishedAt), 'MMM d, yyyy')}</div>
+                    </div>
+                    <ChevronRight className="h-4 w-4 shrink-0" />
+                  </Link>
+                )}
+              </div>
+            </nav>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <footer className="border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 mt-auto">
+          <div className="container mx-auto px-6 flex py-4 items-center justify-center">
+            <div className="text-center">
+              <div className="text-sm font-mono text-muted-foreground">
+                © 2025 Relix. AI-powered changelog generator.
+              </div>
+              <div className="text-sm font-mono text-muted-foreground mt-1">
+                Made with ❤️ for developers
+              </div>
+            </div>
+          </div>
+        </footer>
+      </div>
+    </ThemeProvider>
+  )
+}
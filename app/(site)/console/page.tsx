@@ -8,14 +8,21 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
 import { useToast } from "@/hooks/use-toast"
 import { Toaster } from "@/components/ui/toaster"
 import { ThemeProvider } from "@/components/theme-provider"
-import { Github, Loader2, Send, Sun, Moon, Calendar, TagIcon, Hash, GitBranch, ExternalLink } from "lucide-react"
+import { AuthButton } from "@/components/auth-button"
+import { useAuth } from "@/components/auth-provider"
+import { Github, Loader2, Send, Sun, Moon, Calendar, TagIcon, Hash, GitBranch, ExternalLink, X } from "lucide-react"
 import { useTheme } from "next-themes"
 import ReactMarkdown from "react-markdown"
 import { ToastAction } from "@/components/ui/toast"
 import Link from "next/link"
+import { parseServerSentEvents } from "@/lib/sse"
+import { authFetch } from "@/lib/auth/client"
+import { setReleaseHeaderVersion, type VersionInference } from "@/lib/semver"
+import { describePathScope, normalizePathScope } from "@/lib/path-scope"
 
 // Types for our state management
 interface GeneratePayload {
@@ -26,6 +33,10 @@ interface GeneratePayload {
   end?: string
   base?: string
   head?: string
+  generator: "llm" | "template"
+  includePaths?: string[]
+  excludePaths?: string[]
+  overlap: "reject" | "skip"
 }
 
 interface Branch {
@@ -38,6 +49,13 @@ interface Tag {
   commit: { sha: string }
 }
 
+// A commit left out of the draft because an earlier release already includes it
+interface SkippedCommit {
+  sha: string
+  title: string
+  release: { id: string; publishedAt: string; version: string | null }
+}
+
 interface GenerateResponse {
   markdown: string
   repo: string
@@ -46,6 +64,11 @@ interface GenerateResponse {
   baseSha: string
   headSha: string
   commits_list: string[] // Array of commit SHAs
+  total_commits: number
+  generator: "llm" | "template"
+  fallback_reason: string | null
+  version: VersionInference
+  skipped_commits: SkippedCommit[]
   originalParams?: {
     start?: string
     end?: string
@@ -56,7 +79,7 @@ interface GenerateResponse {
 
 // Real API functions
 const fetchBranches = async (repo: string): Promise<Branch[]> => {
-  const response = await fetch(`/api/github/branches?repo=${encodeURIComponent(repo)}`)
+  const response = await authFetch(`/api/github/branches?repo=${encodeURIComponent(repo)}`)
   
   if (!response.ok) {
     const error = await response.json()
@@ -67,7 +90,7 @@ const fetchBranches = async (repo: string): Promise<Branch[]> => {
 }
 
 const fetchTags = async (repo: string): Promise<Tag[]> => {
-  const response = await fetch(`/api/github/tags?repo=${encodeURIComponent(repo)}`)
+  const response = await authFetch(`/api/github/tags?repo=${encodeURIComponent(repo)}`)
   
   if (!response.ok) {
     const error = await response.json()
@@ -77,27 +100,60 @@ const fetchTags = async (repo: string): Promise<Tag[]> => {
   return response.json()
 }
 
-// Generate changelog draft (AI-generated markdown only, no database save)
-const generateChangelogDraft = async (payload: GeneratePayload): Promise<GenerateResponse> => {
-  const response = await fetch('/api/generate', {
+// Stream a changelog draft (AI-generated markdown only, no database save).
+// Resolves with the final markdown once the server sends its "done" event.
+const streamChangelogDraft = async (
+  payload: GeneratePayload,
+  handlers: {
+    onMeta: (meta: Omit<GenerateResponse, "markdown">) => void
+    onDelta: (text: string) => void
+    onFallback: (reason: string) => void
+  },
+  signal: AbortSignal
+): Promise<string> => {
+  const response = await authFetch('/api/generate', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify(payload),
+    body: JSON.stringify({ ...payload, stream: true }),
+    signal,
   })
   
   if (!response.ok) {
     const error = await response.json()
+    if (error.code === 'overlap_conflict') {
+      throw new Error(`${error.error} Turn on "Skip published commits" to draft only the unpublished ones.`)
+    }
     throw new Error(error.error || 'Failed to generate changelog')
   }
-  
-  return response.json()
+
+  if (!response.body) {
+    throw new Error('Failed to generate changelog')
+  }
+
+  for await (const event of parseServerSentEvents(response.body)) {
+    const data = JSON.parse(event.data)
+    if (event.event === 'meta') {
+      handlers.onMeta(data)
+    } else if (event.event === 'delta') {
+      handlers.onDelta(data.text)
+    } else if (event.event === 'fallback') {
+      handlers.onFallback(data.fallback_reason)
+    } else if (event.event === 'done') {
+      return data.markdown
+    } else if (event.event === 'error') {
+      throw new Error(data.error || 'Failed to generate changelog')
+    }
+  }
+
+  throw new Error('Generation ended before the draft was complete')
 }
 
 // Publish changelog directly to release_slices
-const publishChangelog = async (payload: GeneratePayload, markdown: string, shaRange: { baseSha: string; headSha: string; commits_list: string[] }): Promise<any> => {
-  const response = await fetch('/api/releases', {
+const publishChangelog = async (payload: GeneratePayload, markdown: string, shaRange: { baseSha: string; headSha: string; commits_list: string[] }, version: string): Promise<any> => {
+  // authFetch sends the user's GitHub token, which the server uses to check write access to the repository
+  const response = await authFetch('/api/releases', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -110,6 +166,9 @@ const publishChangelog = async (payload: GeneratePayload, markdown: string, shaR
       headSha: shaRange.headSha,
       markdown,
       commits_list: shaRange.commits_list, // Pass commits_list
+      version: version || undefined,
+      includePaths: payload.includePaths,
+      excludePaths: payload.excludePaths,
       originalParams: {
         start: payload.start,
         end: payload.end,
@@ -127,6 +186,10 @@ const publishChangelog = async (payload: GeneratePayload, markdown: string, shaR
   return response.json()
 }
 
+// Split a comma- or newline-separated list of path globs
+const splitPathList = (value: string): string[] =>
+  value.split(/[,\n]/).map((path) => path.trim()).filter(Boolean)
+
 // Theme toggle component
 function ThemeToggle() {
   const { theme, setTheme } = useTheme()
@@ -181,11 +244,16 @@ function TagCombobox({
 function ConsolePageContent() {
   // URL parameters
   const searchParams = useSearchParams()
+  const { user } = useAuth()
   
   // Form state
   const [repoUrl, setRepoUrl] = useState("")
   const [branch, setBranch] = useState("main")
   const [rangeType, setRangeType] = useState<"date" | "tag" | "sha">("date")
+  const [generator, setGenerator] = useState<"llm" | "template">("llm")
+  const [includePaths, setIncludePaths] = useState("")
+  const [excludePaths, setExcludePaths] = useState("")
+  const [skipPublished, setSkipPublished] = useState(false)
   const [startDate, setStartDate] = useState("")
   const [endDate, setEndDate] = useState("")
   const [baseTag, setBaseTag] = useState("")
@@ -197,6 +265,9 @@ function ConsolePageContent() {
   const [isGenerating, setIsGenerating] = useState(false)
   const [isPublishing, setIsPublishing] = useState(false)
   const [draft, setDraft] = useState("")
+  const [version, setVersion] = useState("") // Inferred release version, editable before publishing
+  const [inferredVersion, setInferredVersion] = useState<VersionInference | null>(null)
+  const [skippedCommits, setSkippedCommits] = useState<SkippedCommit[]>([]) // Already-published commits left out of the draft
   const [generatedPayload, setGeneratedPayload] = useState<GeneratePayload | null>(null) // Store the payload for publishing
   const [shaRange, setShaRange] = useState<{ baseSha: string; headSha: string; commits_list: string[] } | null>(null) // Store SHA range for publishing
   const [branches, setBranches] = useState<Branch[]>([])
@@ -206,6 +277,7 @@ function ConsolePageContent() {
 
   const { toast } = useToast()
   const editorSectionRef = useRef<HTMLDivElement>(null)
+  const generateAbortRef = useRef<AbortController | null>(null)
 
   // Extract repo owner/name from URL
   const extractRepoFromUrl = (url: string): string | null => {
@@ -288,8 +360,16 @@ function ConsolePageContent() {
       repo,
       branch,
       mode: rangeType,
+      generator,
+      overlap: skipPublished ? "skip" : "reject",
     }
 
+    // Optional monorepo scoping, entered as comma-separated globs
+    const include = splitPathList(includePaths)
+    const exclude = splitPathList(excludePaths)
+    if (include.length > 0) payload.includePaths = include
+    if (exclude.length > 0) payload.excludePaths = exclude
+
     // Add range-specific parameters
     if (rangeType === "date") {
       if (!startDate || !endDate) {
@@ -326,30 +406,88 @@ function ConsolePageContent() {
       payload.head = headSha || "HEAD"
     }
 
+    const abortController = new AbortController()
+    generateAbortRef.current = abortController
+
     setIsGenerating(true)
+    setDraft("")
+    setGeneratedPayload(null)
+    setShaRange(null)
+    setVersion("")
+    setInferredVersion(null)
+    setSkippedCommits([])
     try {
-      const response = await generateChangelogDraft(payload)
-      setGeneratedPayload(payload) // Store payload for publishing
-      setShaRange({ baseSha: response.baseSha, headSha: response.headSha, commits_list: response.commits_list }) // Store SHA range for publishing
-      setDraft(response.markdown)
+      let draftCommits = 0
+      let fallbackReason: string | null = null
+      const markdown = await streamChangelogDraft(
+        payload,
+        {
+          onMeta: (meta) => {
+            draftCommits = meta.commits_list.length
+            fallbackReason = meta.fallback_reason
+            setSkippedCommits(meta.skipped_commits)
+            setVersion(meta.version.next)
+            setInferredVersion(meta.version)
+            setGeneratedPayload(payload) // Store payload for publishing
+            setShaRange({ baseSha: meta.baseSha, headSha: meta.headSha, commits_list: meta.commits_list }) // Store SHA range for publishing
+          },
+          onDelta: (text) => setDraft((current) => current + text),
+          onFallback: (reason) => {
+            // Partial AI output is replaced by the template draft that follows
+            fallbackReason = reason
+            setDraft("")
+          },
+        },
+        abortController.signal
+      )
+      setDraft(markdown)
       toast({
-        title: "Draft Generated",
-        description: "Your changelog draft is ready for review and editing. Click 'Publish' when ready to make it live.",
+        title: fallbackReason ? "Draft Generated from Template" : "Draft Generated",
+        description: fallbackReason
+          ? `${fallbackReason}. The draft covering ${draftCommits} commits was built from commit metadata instead.`
+          : `Your changelog draft covering ${draftCommits} commits is ready for review and editing. Click 'Publish' when ready to make it live.`,
       })
     } catch (error) {
-      toast({
-        title: "Generation Failed",
-        description: error instanceof Error ? error.message : "Failed to generate changelog. Please try again.",
-        variant: "destructive",
-      })
+      if (abortController.signal.aborted) {
+        // Discard the partial draft so it cannot be published by accident
+        setDraft("")
+        setGeneratedPayload(null)
+        setShaRange(null)
+        setSkippedCommits([])
+        toast({
+          title: "Generation Cancelled",
+          description: "The draft request was stopped.",
+        })
+      } else {
+        toast({
+          title: "Generation Failed",
+          description: error instanceof Error ? error.message : "Failed to generate changelog. Please try again.",
+          variant: "destructive",
+        })
+      }
     } finally {
+      generateAbortRef.current = null
       setIsGenerating(false)
     }
-  }, [repoUrl, branch, rangeType, startDate, endDate, baseTag, headTag, baseSha, headSha, toast])
+  }, [repoUrl, branch, rangeType, generator, includePaths, excludePaths, skipPublished, startDate, endDate, baseTag, headTag, baseSha, headSha, toast])
+
+  // Overriding the version keeps the draft's release header in sync
+  const handleVersionChange = useCallback((value: string) => {
+    setVersion(value)
+    if (value.trim()) {
+      setDraft((current) => setReleaseHeaderVersion(current, value.trim()))
+    }
+  }, [])
+
+  // Stop an in-flight draft; aborting the fetch also stops the upstream completion
+  const handleCancelGenerate = useCallback(() => {
+    generateAbortRef.current?.abort()
+  }, [])
 
-  // Scroll to editor when draft is generated
+  // Scroll to editor when the draft starts to appear
+  const hasDraft = draft.length > 0
   useEffect(() => {
-    if (draft && editorSectionRef.current) {
+    if (hasDraft && editorSectionRef.current) {
       // Small delay to ensure the DOM has updated
       setTimeout(() => {
         editorSectionRef.current?.scrollIntoView({ 
@@ -358,7 +496,7 @@ function ConsolePageContent() {
         })
       }, 100)
     }
-  }, [draft])
+  }, [hasDraft])
 
   // Publish changelog (save edited markdown to database)
   const handlePublish = useCallback(async () => {
@@ -367,7 +505,7 @@ function ConsolePageContent() {
     setIsPublishing(true)
     try {
       // Publish the edited markdown directly to release_slices
-      const publishedData = await publishChangelog(generatedPayload, draft, shaRange)
+      const publishedData = await publishChangelog(generatedPayload, draft, shaRange, version)
       
       const repo = publishedData.repo
       const changelogUrl = `/${repo}`
@@ -394,7 +532,7 @@ function ConsolePageContent() {
     } finally {
       setIsPublishing(false)
     }
-  }, [generatedPayload, draft, shaRange, toast])
+  }, [generatedPayload, draft, shaRange, version, toast])
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -403,7 +541,7 @@ function ConsolePageContent() {
         e.preventDefault()
         if (e.shiftKey) {
           // Cmd/Ctrl + Shift + Enter = Publish
-          if (generatedPayload && shaRange && !isPublishing) {
+          if (generatedPayload && shaRange && !isPublishing && !isGenerating) {
             handlePublish()
           }
         } else {
@@ -452,7 +590,8 @@ function ConsolePageContent() {
                   Console
                 </Link>
               </nav>
-              <div className="ml-8 pl-4 border-l border-slate-300 dark:border-slate-600">
+              <div className="ml-8 pl-4 border-l border-slate-300 dark:border-slate-600 flex items-center gap-2">
+                <AuthButton />
                 <ThemeToggle />
               </div>
             </div>
@@ -507,6 +646,30 @@ function ConsolePageContent() {
                 </div>
               </div>
 
+              {/* Path scope for monorepos */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="include-paths">Include Paths (optional)</Label>
+                  <Input
+                    id="include-paths"
+                    placeholder="packages/web/**, packages/shared/**"
+                    value={includePaths}
+                    onChange={(e) => setIncludePaths(e.target.value)}
+                    className="font-mono text-sm"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="exclude-paths">Exclude Paths (optional)</Label>
+                  <Input
+                    id="exclude-paths"
+                    placeholder="**/*.test.ts, docs/**"
+                    value={excludePaths}
+                    onChange={(e) => setExcludePaths(e.target.value)}
+                    className="font-mono text-sm"
+                  />
+                </div>
+              </div>
+
               {/* Range Type Tabs */}
               <div>
                 <Label>Range Type</Label>
@@ -598,20 +761,53 @@ function ConsolePageContent() {
 
               {/* Generate Button */}
               <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
-                <Button
-                  onClick={handleGenerate}
-                  disabled={isGenerating || !repoUrl}
-                  className="bg-gradient-to-r from-emerald-600 to-[#107C41] hover:from-emerald-700 hover:to-green-800 text-white shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105 px-8 py-2 font-mono w-full sm:w-auto"
-                >
-                  {isGenerating ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Generating Draft...
-                    </>
-                  ) : (
-                    "Generate Draft"
+                <div className="flex flex-col sm:flex-row items-center gap-2 w-full sm:w-auto">
+                  <Select value={generator} onValueChange={(value) => setGenerator(value as "llm" | "template")} disabled={isGenerating}>
+                    <SelectTrigger className="w-full sm:w-48 font-mono">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="llm">AI draft</SelectItem>
+                      <SelectItem value="template">Template (no AI)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="skip-published"
+                      checked={skipPublished}
+                      onCheckedChange={setSkipPublished}
+                      disabled={isGenerating}
+                    />
+                    <Label htmlFor="skip-published" className="font-mono text-sm whitespace-nowrap">
+                      Skip published commits
+                    </Label>
+                  </div>
+                  <Button
+                    onClick={handleGenerate}
+                    disabled={isGenerating || !repoUrl}
+                    className="bg-gradient-to-r from-emerald-600 to-[#107C41] hover:from-emerald-700 hover:to-green-800 text-white shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105 px-8 py-2 font-mono w-full sm:w-auto"
+                  >
+                    {isGenerating ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Generating Draft...
+                      </>
+                    ) : (
+                      "Generate Draft"
+                    )}
+                  </Button>
+
+                  {isGenerating && (
+                    <Button
+                      onClick={handleCancelGenerate}
+                      variant="outline"
+                      className="font-mono w-full sm:w-auto"
+                    >
+                      <X className="mr-2 h-4 w-4" />
+                      Cancel
+                    </Button>
                   )}
-                </Button>
+                </div>
 
                 <div className="text-sm text-muted-foreground font-mono text-center sm:text-right">
                   <kbd className="px-3 py-1 bg-slate-200 dark:bg-slate-700 rounded-md text-xs border border-slate-300 dark:border-slate-600 shadow-sm">⌘</kbd> +
@@ -635,7 +831,7 @@ function ConsolePageContent() {
                     <kbd className="px-3 py-1 bg-slate-200 dark:bg-slate-700 rounded-md text-xs border border-slate-300 dark:border-slate-600 shadow-sm ml-1">⇧</kbd> +
                     <kbd className="px-3 py-1 bg-slate-200 dark:bg-slate-700 rounded-md text-xs border border-slate-300 dark:border-slate-600 shadow-sm ml-1">Enter</kbd> to publish
                   </div>
-                  <Button onClick={handlePublish} disabled={isPublishing || !generatedPayload || !shaRange} className="bg-gradient-to-r from-[#107C41] to-green-700 hover:from-green-800 hover:to-green-900 text-white shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105 font-mono w-full sm:w-auto">
+                  <Button onClick={handlePublish} disabled={isPublishing || isGenerating || !generatedPayload || !shaRange || !user} title={user ? undefined : "Sign in to publish"} className="bg-gradient-to-r from-[#107C41] to-green-700 hover:from-green-800 hover:to-green-900 text-white shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105 font-mono w-full sm:w-auto">
                     {isPublishing ? (
                       <>
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -644,7 +840,7 @@ function ConsolePageContent() {
                     ) : (
                       <>
                         <Send className="mr-2 h-4 w-4" />
-                        Publish
+                        {user ? "Publish" : "Sign in to publish"}
                       </>
                     )}
                   </Button>
@@ -673,11 +869,50 @@ function ConsolePageContent() {
                         {generatedPayload.mode === 'sha' && 
                           `${generatedPayload.base?.substring(0, 7)}...${generatedPayload.head?.substring(0, 7) || 'HEAD'}`}
                       </span>
+                      {(generatedPayload.includePaths || generatedPayload.excludePaths) && (
+                        <span className="font-mono text-blue-600 dark:text-blue-400 bg-blue-100/30 dark:bg-blue-900/20 px-2 py-1 rounded-md">
+                          {describePathScope(normalizePathScope(generatedPayload.includePaths, generatedPayload.excludePaths))}
+                        </span>
+                      )}
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="release-version" className="font-mono text-blue-900 dark:text-blue-100">
+                          Version
+                        </Label>
+                        <Input
+                          id="release-version"
+                          value={version}
+                          onChange={(e) => handleVersionChange(e.target.value)}
+                          className="h-8 w-32 font-mono text-sm"
+                          title={inferredVersion?.previous
+                            ? `Inferred ${inferredVersion.bump ?? 'from tag'} release after ${inferredVersion.previous}`
+                            : "Inferred initial release"}
+                        />
+                      </div>
                     </div>
                   </div>
                 </div>
               )}
 
+              {/* Commits left out because earlier releases already include them */}
+              {skippedCommits.length > 0 && (
+                <details className="bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded-xl p-4 text-sm font-mono">
+                  <summary className="cursor-pointer text-amber-900 dark:text-amber-100">
+                    Skipped {skippedCommits.length} already-published {skippedCommits.length === 1 ? "commit" : "commits"}
+                  </summary>
+                  <ul className="mt-3 space-y-1">
+                    {skippedCommits.map((skipped) => (
+                      <li key={skipped.sha} className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-3 text-amber-800 dark:text-amber-200">
+                        <code className="text-xs">{skipped.sha.substring(0, 7)}</code>
+                        <span className="truncate">{skipped.title}</span>
+                        <span className="text-xs text-amber-700 dark:text-amber-300 sm:ml-auto whitespace-nowrap">
+                          in {skipped.release.version ?? "release"} ({new Date(skipped.release.publishedAt).toLocaleDateString()})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
               {/* Split pane editor */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-2 h-[400px] md:h-[600px] bg-white/50 dark:bg-slate-800/50 rounded-2xl overflow-hidden shadow-2xl border border-slate-200 dark:border-slate-700">
                 {/* Editor pane */}
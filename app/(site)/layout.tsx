@@ -1,17 +1,28 @@
 import { Suspense } from "react"
 import type { Metadata } from "next"
 import { Inter } from "next/font/google"
-import "./globals.css"
+import "../globals.css"
 import { ThemeProvider } from "@/components/theme-provider"
 import { Toaster } from "@/components/ui/sonner"
 import { PHProvider, PostHogPageview } from "@/components/posthog-provider"
+import { AuthProvider } from "@/components/auth-provider"
+import { getSiteUrl, SITE_NAME } from "@/lib/site"
 
 const inter = Inter({ subsets: ["latin"] })
 
-export const metadata: Metadata = {
-  title: "Changelog Console",
-  description: "AI-powered changelog generator for developers",
-  generator: 'v0.dev'
+export async function generateMetadata(): Promise<Metadata> {
+  return {
+    // Resolves relative canonical and Open Graph URLs of every page
+    metadataBase: new URL(await getSiteUrl()),
+    title: {
+      default: `${SITE_NAME} – Changelog Console`,
+      template: `%s | ${SITE_NAME}`,
+    },
+    description: "AI-powered changelog generator for developers",
+    applicationName: SITE_NAME,
+    openGraph: { siteName: SITE_NAME },
+    generator: 'v0.dev'
+  }
 }
 
 export default function RootLayout({
@@ -32,7 +43,9 @@ export default function RootLayout({
             <Suspense>
               <PostHogPageview />
             </Suspense>
-            {children}
+            <AuthProvider>
+              {children}
+            </AuthProvider>
             <Toaster />
           </ThemeProvider>
         </body>
@@ -11,6 +11,9 @@ import { Skeleton } from "@/components/ui/skeleton"
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useTheme } from "next-themes"
+import { AuthButton } from "@/components/auth-button"
+import { useAuth } from "@/components/auth-provider"
+import { authFetch } from '@/lib/auth/client'
 
 interface RepoSummary {
   repo: string;
@@ -214,6 +217,7 @@ function ThemeToggle() {
 }
 
 export default function HomePage() {
+  const { user } = useAuth()
   const [repos, setRepos] = useState<RepoSummary[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -225,7 +229,8 @@ export default function HomePage() {
         setLoading(true)
         setError(null)
         
-        const response = await fetch('/api/repos')
+        // Sends the user's GitHub token so private repositories they can see are listed
+        const response = await authFetch('/api/repos')
         console.log('API response status:', response.status)
         
         if (!response.ok) {
@@ -245,7 +250,7 @@ export default function HomePage() {
     }
 
     fetchRepos()
-  }, [])
+  }, [user])
 
   return (
     <ThemeProvider
@@ -280,7 +285,8 @@ export default function HomePage() {
                   Console
                 </Link>
               </nav>
-              <div className="ml-8 pl-4 border-l border-slate-300 dark:border-slate-600">
+              <div className="ml-8 pl-4 border-l border-slate-300 dark:border-slate-600 flex items-center gap-2">
+                <AuthButton />
                 <ThemeToggle />
               </div>
             </div>
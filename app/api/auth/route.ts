@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProviderName, getRequestUser } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+
+// GET handler - the configured sign-in provider and the user behind the request's token, if any
+export async function GET(request: NextRequest) {
+  try {
+    const provider = getAuthProviderName();
+    const user = await getRequestUser(request);
+
+    return NextResponse.json({ provider, user });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { filterVisibleReleases } from '@/lib/auth';
+import { errorResponse, ValidationError } from '@/lib/errors';
+import { Feed, FEED_CONTENT_TYPES, FEED_FORMATS, FeedFormat, renderFeed } from '@/lib/feeds';
+import { markdownToHtml } from '@/lib/markdown';
+import { releasePath, transformReleaseSlice } from '@/lib/releases';
+import { getReleaseStore } from '@/lib/storage';
+
+// Releases per feed; readers only need the recent history
+const FEED_ITEM_LIMIT = 50;
+
+// Public feed paths, rewritten to this route in next.config.mjs
+const FEED_FILES: Record<FeedFormat, string> = {
+  rss: 'feed.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+};
+
+// GET handler - a repository's published releases as an RSS, Atom or JSON feed
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams, origin } = request.nextUrl;
+    const repo = searchParams.get('repo');
+    const branch = searchParams.get('branch');
+    const format = searchParams.get('format') || 'rss';
+
+    if (!repo) {
+      throw new ValidationError('Repository parameter is required');
+    }
+    if (!(FEED_FORMATS as readonly string[]).includes(format)) {
+      throw new ValidationError(`Invalid feed format '${format}'. Expected one of: ${FEED_FORMATS.join(', ')}`);
+    }
+    const feedFormat = format as FeedFormat;
+
+    // Feed readers send no credentials, so private repositories yield an empty feed
+    const releases = await filterVisibleReleases(
+      request,
+      await getReleaseStore().listReleases({ repo, branch: branch || undefined, limit: FEED_ITEM_LIMIT })
+    );
+
+    const homePageUrl = `${origin}/${repo}`;
+    const branchQuery = branch ? `?branch=${encodeURIComponent(branch)}` : '';
+    const feed: Feed = {
+      title: `${repo} changelog${branch ? ` (${branch})` : ''}`,
+      description: `Release notes for ${repo}${branch ? ` on ${branch}` : ''}`,
+      homePageUrl,
+      feedUrl: `${homePageUrl}/${FEED_FILES[feedFormat]}${branchQuery}`,
+      items: releases.map(transformReleaseSlice).map(release => ({
+        id: release.id,
+        url: `${origin}${releasePath(repo, release.id)}`,
+        title: release.tag || release.range,
+        html: markdownToHtml(release.markdown),
+        markdown: release.markdown,
+        publishedAt: release.publishedAt,
+      })),
+    };
+
+    return new NextResponse(renderFeed(feed, feedFormat), {
+      headers: {
+        'Content-Type': FEED_CONTENT_TYPES[feedFormat],
+        // Feeds that include private releases must not end up in shared caches
+        'Cache-Control': releases.some(release => release.private_repo) ? 'private, no-store' : 'public, max-age=300',
+      },
+    });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return errorResponse(error);
+  }
+}
@@ -1,7 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import OpenAI from 'openai';
-import { createClient } from '@supabase/supabase-js';
+import { getLLMProvider, LLMProvider, LLMProviderError, PROVIDER_NAMES } from '@/lib/llm';
+import { encodeServerSentEvent } from '@/lib/sse';
+import { CHANGELOG_CATEGORIES, ClassifiedCommit, classifyCommit } from '@/lib/conventional-commits';
+import { DEFAULT_TEMPLATE_RULES, renderTemplateChangelog, TemplateCommit } from '@/lib/changelog-template';
+import { BreakingChange, ChangedFile, detectBreakingChanges, formatBreakingChanges } from '@/lib/breaking-changes';
+import { inferBump, inferNextVersion, parseVersion, setReleaseHeaderVersion } from '@/lib/semver';
+import { getRequestGitHubToken } from '@/lib/auth';
+import { githubError, githubFetch } from '@/lib/github';
+import { getReleaseStore, ReleaseOverlap, ReleaseStore } from '@/lib/storage';
+import { ConfigurationError, errorResponse, GitHubError, OverlapConflictError, parseJsonBody, RangeEmptyError, toErrorBody, ValidationError } from '@/lib/errors';
+import { commitTouchesScope, isEmptyPathScope, isPathInScope, normalizePathScope, pathScopeKey } from '@/lib/path-scope';
+
+const templateRuleSchema = z.object({
+  category: z.enum(CHANGELOG_CATEGORIES),
+  labels: z.array(z.string()).optional(),
+  paths: z.array(z.string().min(1).max(200)).max(50).optional(),
+  // Plain prefixes rather than regular expressions, which could backtrack without end on the server
+  titlePrefixes: z.array(z.string().min(1).max(200)).max(50).optional(),
+}).strict();
 
 // Validation schema
 const generateSchema = z.object({
@@ -12,16 +29,25 @@ const generateSchema = z.object({
   end: z.string().optional(),
   base: z.string().optional(),
   head: z.string().optional(),
+  // Overrides the deployment's LLM_PROVIDER for this request
+  provider: z.enum(PROVIDER_NAMES).optional(),
+  // Stream the draft as Server-Sent Events instead of a single JSON response
+  stream: z.boolean().default(false),
+  // "template" renders the draft from commit metadata without calling an LLM
+  generator: z.enum(['llm', 'template']).default('llm'),
+  // Extra template categorization rules, applied before the built-in ones
+  templateRules: z.array(templateRuleSchema).max(50).optional(),
+  // Limit the changelog to commits touching these globs (e.g. one monorepo package)
+  includePaths: z.array(z.string().min(1).max(200)).max(50).optional(),
+  excludePaths: z.array(z.string().min(1).max(200)).max(50).optional(),
+  // "skip" drafts only the commits not yet published instead of rejecting an overlapping range
+  overlap: z.enum(['reject', 'skip']).default('reject'),
 });
 
 // Environment validation
 function validateEnvironment() {
   const required = {
     GITHUB_PAT: process.env.GITHUB_PAT,
-    OPENAI_API_KEY: process.env.OPENAI_API_KEY,
-    NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
-    SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
-    HELICONE_API_KEY: process.env.HELICONE_API_KEY,
   };
 
   const missing = Object.entries(required)
@@ -29,62 +55,30 @@ function validateEnvironment() {
     .map(([key]) => key);
 
   if (missing.length > 0) {
-    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+    throw new ConfigurationError(`Missing required environment variables: ${missing.join(', ')}`);
   }
 
   return required as Record<string, string>;
 }
 
-// Initialize OpenAI client
-let openai: OpenAI;
-
-function initializeOpenAI() {
-  const env = validateEnvironment();
-  openai = new OpenAI({
-    apiKey: env.OPENAI_API_KEY,
-    baseURL: 'https://oai.hconeai.com/v1',
-    defaultHeaders: {
-      'Helicone-Auth': `Bearer ${env.HELICONE_API_KEY}`,
-    },
-  });
-}
-
 // Helper functions
 
 // Resolve a tag to its commit SHA
-export async function resolveTagToSha(repo: string, tag: string): Promise<string> {
-  const token = process.env.GITHUB_PAT;
-  const baseUrl = 'https://api.github.com';
-  
-  const response = await fetch(`${baseUrl}/repos/${repo}/git/refs/tags/${tag}`, {
-    headers: {
-      'Authorization': `token ${token}`,
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'Relix-Changelog-Generator'
-    }
-  });
+export async function resolveTagToSha(repo: string, tag: string, token?: string): Promise<string> {
+  const response = await githubFetch(`/repos/${repo}/git/refs/tags/${tag}`, { token });
   
   if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error(`Tag '${tag}' not found`);
-    }
-    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+    throw githubError(response, `Tag '${tag}' not found`);
   }
   
   const tagData = await response.json();
   
   // For annotated tags, we need to get the commit SHA
   if (tagData.object.type === 'tag') {
-    const tagResponse = await fetch(`${baseUrl}/repos/${repo}/git/tags/${tagData.object.sha}`, {
-      headers: {
-        'Authorization': `token ${token}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'User-Agent': 'Relix-Changelog-Generator'
-      }
-    });
+    const tagResponse = await githubFetch(`/repos/${repo}/git/tags/${tagData.object.sha}`, { token });
     
     if (!tagResponse.ok) {
-      throw new Error(`Failed to resolve annotated tag: ${tagResponse.status} ${tagResponse.statusText}`);
+      throw githubError(tagResponse, `Annotated tag '${tag}' could not be resolved`);
     }
     
     const annotatedTag = await tagResponse.json();
@@ -96,13 +90,10 @@ export async function resolveTagToSha(repo: string, tag: string): Promise<string
 }
 
 // Find the SHA of the first commit in a date range
-export async function findCommitShaByDate(repo: string, branch: string, date: string, isStart: boolean): Promise<string> {
-  const token = process.env.GITHUB_PAT;
-  const baseUrl = 'https://api.github.com';
-  
+export async function findCommitShaByDate(repo: string, branch: string, date: string, isStart: boolean, token?: string): Promise<string> {
   // For start date, we want commits since that date
   // For end date, we want commits until that date
-  let url = `${baseUrl}/repos/${repo}/commits?sha=${branch}&per_page=100`;
+  let url = `/repos/${repo}/commits?sha=${branch}&per_page=100`;
   
   if (isStart) {
     url += `&since=${date}`;
@@ -110,22 +101,16 @@ export async function findCommitShaByDate(repo: string, branch: string, date: st
     url += `&until=${date}`;
   }
   
-  const response = await fetch(url, {
-    headers: {
-      'Authorization': `token ${token}`,
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'Relix-Changelog-Generator'
-    }
-  });
+  const response = await githubFetch(url, { token });
   
   if (!response.ok) {
-    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+    throw githubError(response, `Repository or branch '${branch}' not found or not accessible`);
   }
   
   const commits = await response.json();
   
   if (!Array.isArray(commits) || commits.length === 0) {
-    throw new Error(`No commits found ${isStart ? 'since' : 'until'} ${date}`);
+    throw new RangeEmptyError(`No commits found ${isStart ? 'since' : 'until'} ${date}`);
   }
   
   // For start date, we want the oldest commit (last in the array)
@@ -143,32 +128,33 @@ export async function convertToShaRange(
     end?: string;
     base?: string;
     head?: string;
-  }
+  },
+  token?: string
 ): Promise<{ baseSha: string; headSha: string }> {
   let baseSha: string;
   let headSha: string;
   
   if (mode === 'date') {
     if (!params.start || !params.end) {
-      throw new Error('Start and end dates are required for date mode');
+      throw new ValidationError('Start and end dates are required for date mode');
     }
     
     // Find the SHA of the first commit in the date range
-    baseSha = await findCommitShaByDate(repo, branch, params.start, true);
-    headSha = await findCommitShaByDate(repo, branch, params.end, false);
+    baseSha = await findCommitShaByDate(repo, branch, params.start, true, token);
+    headSha = await findCommitShaByDate(repo, branch, params.end, false, token);
     
   } else if (mode === 'tag') {
     if (!params.base || !params.head) {
-      throw new Error('Base and head tags are required for tag mode');
+      throw new ValidationError('Base and head tags are required for tag mode');
     }
     
     // Resolve tags to SHAs
-    baseSha = await resolveTagToSha(repo, params.base);
-    headSha = params.head === 'HEAD' ? 'HEAD' : await resolveTagToSha(repo, params.head);
+    baseSha = await resolveTagToSha(repo, params.base, token);
+    headSha = params.head === 'HEAD' ? 'HEAD' : await resolveTagToSha(repo, params.head, token);
     
   } else if (mode === 'sha') {
     if (!params.base || !params.head) {
-      throw new Error('Base and head SHAs are required for SHA mode');
+      throw new ValidationError('Base and head SHAs are required for SHA mode');
     }
     
     // Already SHAs, just use them
@@ -176,12 +162,81 @@ export async function convertToShaRange(
     headSha = params.head;
     
   } else {
-    throw new Error(`Invalid mode: ${mode}`);
+    throw new ValidationError(`Invalid mode: ${mode}`);
   }
   
   return { baseSha, headSha };
 }
 
+// GitHub caps each compare page at 100 commits and the unpaginated response at 250
+const COMPARE_PAGE_SIZE = 100;
+
+// Safety limit on the number of compare pages fetched for a single range
+const MAX_COMPARE_PAGES = 100;
+
+// GitHub lists at most this many changed files for a comparison, however many pages are fetched
+const COMPARE_MAX_FILES = 300;
+
+// Walk every page of the compare API for a SHA range
+export async function fetchCompareCommits(
+  repo: string,
+  baseSha: string,
+  headSha: string,
+  token?: string
+): Promise<{ commits: any[]; totalCommits: number; files: ChangedFile[]; filesTruncated: boolean }> {
+  const commits: any[] = [];
+  let totalCommits = 0;
+  // Changed files keyed by filename, merged across pages
+  const files = new Map<string, ChangedFile>();
+
+  for (let page = 1; page <= MAX_COMPARE_PAGES; page++) {
+    const compareUrl = `/repos/${repo}/compare/${baseSha}...${headSha}?per_page=${COMPARE_PAGE_SIZE}&page=${page}`;
+
+    const response = await githubFetch(compareUrl, { token });
+
+    if (!response.ok) {
+      throw githubError(response, 'Repository not found or commit range not accessible');
+    }
+
+    const compareData = await response.json();
+    const pageCommits: any[] = compareData.commits || [];
+
+    // total_commits reflects the whole range, not just this page
+    totalCommits = compareData.total_commits ?? totalCommits;
+    commits.push(...pageCommits);
+
+    // The changed files describe the whole range; GitHub usually sends them with the first page only
+    for (const file of compareData.files || []) {
+      files.set(file.filename, {
+        filename: file.filename,
+        status: file.status,
+        previousFilename: file.previous_filename,
+      });
+    }
+
+    if (pageCommits.length < COMPARE_PAGE_SIZE || commits.length >= totalCommits) {
+      break;
+    }
+  }
+
+  if (commits.length < totalCommits) {
+    throw new GitHubError(`GitHub API error: range contains ${totalCommits} commits but only ${commits.length} could be retrieved`);
+  }
+
+  // Pages can overlap if the branch moves while we are paging, so de-duplicate by SHA
+  const seen = new Set<string>();
+  const uniqueCommits = commits.filter(commit => {
+    if (seen.has(commit.sha)) {
+      return false;
+    }
+    seen.add(commit.sha);
+    return true;
+  });
+
+  // Unlike commits, a capped file list cannot be paged further; callers report it as truncated
+  return { commits: uniqueCommits, totalCommits, files: [...files.values()], filesTruncated: files.size >= COMPARE_MAX_FILES };
+}
+
 export async function fetchCommits(
   repo: string,
   branch: string,
@@ -191,162 +246,634 @@ export async function fetchCommits(
     end?: string;
     base?: string;
     head?: string;
-  }
-): Promise<any[]> {
-  const token = process.env.GITHUB_PAT;
-  const baseUrl = 'https://api.github.com';
-  
+  },
+  token?: string
+): Promise<{ commits: any[]; totalCommits: number; files: ChangedFile[]; filesTruncated: boolean; baseSha: string; headSha: string }> {
   // Convert all range types to SHA range
-  const { baseSha, headSha } = await convertToShaRange(repo, branch, mode, params);
-  
-  // Use GitHub's compare API to get commits between two SHAs
-  const compareUrl = `${baseUrl}/repos/${repo}/compare/${baseSha}...${headSha}`;
-  
-  const response = await fetch(compareUrl, {
-    headers: {
-      'Authorization': `token ${token}`,
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'Relix-Changelog-Generator'
+  const { baseSha, headSha } = await convertToShaRange(repo, branch, mode, params, token);
+
+  // Use GitHub's compare API to get every commit between the two SHAs
+  const { commits, totalCommits, files, filesTruncated } = await fetchCompareCommits(repo, baseSha, headSha, token);
+
+  return { commits, totalCommits, files, filesTruncated, baseSha, headSha };
+}
+
+// Pull request data attached to commits before generation
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  body: string;
+  labels: string[];
+  mergedBy: string | null;
+  url: string;
+}
+
+// Number of per-commit GitHub lookups in flight at once
+const GITHUB_LOOKUP_CONCURRENCY = 8;
+
+// Squash merges append the PR number to the commit title, e.g. "Fix login (#123)"
+const SQUASH_PR_PATTERN = /\(#(\d+)\)\s*$/;
+
+// Run an async mapper over items with bounded concurrency, preserving order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, mapper: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += limit) {
+    results.push(...await Promise.all(items.slice(i, i + limit).map(mapper)));
+  }
+  return results;
+}
+
+// Find the pull request number a commit was merged through
+async function findPullRequestNumber(repo: string, commit: any, token?: string): Promise<number | null> {
+  const squashMatch = commit.commit.message.split('\n')[0].match(SQUASH_PR_PATTERN);
+  if (squashMatch) {
+    return parseInt(squashMatch[1], 10);
+  }
+
+  const response = await githubFetch(`/repos/${repo}/commits/${commit.sha}/pulls`, { token });
+  if (!response.ok) {
+    if (response.status === 404 || response.status === 422) {
+      return null;
     }
-  });
-  
+    throw githubError(response, 'Pull request not found');
+  }
+
+  const pulls: any[] = await response.json();
+  const merged = pulls.find(pull => pull.merged_at) || pulls[0];
+  return merged ? merged.number : null;
+}
+
+async function fetchPullRequest(repo: string, number: number, token?: string): Promise<PullRequestInfo | null> {
+  const response = await githubFetch(`/repos/${repo}/pulls/${number}`, { token });
   if (!response.ok) {
     if (response.status === 404) {
-      throw new Error('Repository not found or commit range not accessible');
+      return null;
     }
-    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+    throw githubError(response, 'Pull request not found');
   }
-  
-  const compareData = await response.json();
-  
-  // Return the commits from the comparison
-  return compareData.commits || [];
+
+  const pull = await response.json();
+  return {
+    number: pull.number,
+    title: pull.title,
+    body: pull.body || '',
+    labels: (pull.labels || []).map((label: any) => label.name),
+    mergedBy: pull.merged_by?.login ?? null,
+    url: pull.html_url,
+  };
 }
 
-// Helper function to check for overlapping commits
-async function checkCommitsOverlap(
-  repo: string,
-  branch: string,
-  newCommitsList: string[]
-): Promise<boolean> {
-  const env = validateEnvironment();
-  const supabase = createClient(env.NEXT_PUBLIC_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
-  
-  // Query for any existing releases for this repo and branch
-  const { data, error } = await supabase
-    .from('release_slices')
-    .select('id, commits_list')
-    .eq('repo', repo)
-    .eq('branch', branch);
-
-  if (error) {
-    console.error('Database overlap check error:', error);
-    throw new Error('Unable to check for existing changelogs. Please try again or contact support if the problem persists.');
+// Resolve each commit to its associated pull request, keyed by full commit SHA.
+// Enrichment is best-effort: a failed lookup leaves only the commits it affects without PR data.
+export async function fetchPullRequestsForCommits(repo: string, commits: any[], token?: string): Promise<Map<string, PullRequestInfo>> {
+  const pullRequests = new Map<string, PullRequestInfo>();
+
+  const numbers = await mapWithConcurrency(commits, GITHUB_LOOKUP_CONCURRENCY, async commit => {
+    try {
+      return await findPullRequestNumber(repo, commit, token);
+    } catch (error) {
+      console.warn(`Pull request lookup failed for commit ${commit.sha}, continuing without PR data:`, error);
+      return null;
+    }
+  });
+
+  const uniqueNumbers = [...new Set(numbers.filter((n): n is number => n !== null))];
+  const details = await mapWithConcurrency(uniqueNumbers, GITHUB_LOOKUP_CONCURRENCY, async number => {
+    try {
+      return await fetchPullRequest(repo, number, token);
+    } catch (error) {
+      console.warn(`Fetching pull request #${number} failed, continuing without its data:`, error);
+      return null;
+    }
+  });
+  const byNumber = new Map<number, PullRequestInfo>();
+  details.forEach(pull => pull && byNumber.set(pull.number, pull));
+
+  commits.forEach((commit, index) => {
+    const pull = numbers[index] !== null ? byNumber.get(numbers[index]!) : undefined;
+    if (pull) {
+      pullRequests.set(commit.sha, pull);
+    }
+  });
+
+  return pullRequests;
+}
+
+// Number of files requested per page of the single-commit API
+const COMMIT_FILES_PAGE_SIZE = 100;
+
+// Files touched by a single commit (the commit API pages files for large commits)
+export async function fetchCommitFiles(repo: string, sha: string, token?: string): Promise<string[]> {
+  const files: string[] = [];
+
+  for (let page = 1; ; page++) {
+    const response = await githubFetch(`/repos/${repo}/commits/${sha}?per_page=${COMMIT_FILES_PAGE_SIZE}&page=${page}`, { token });
+    if (!response.ok) {
+      throw githubError(response, 'Repository not found or commit range not accessible');
+    }
+
+    const data = await response.json();
+    const pageFiles: any[] = data.files || [];
+    files.push(...pageFiles.map(file => file.filename));
+
+    if (pageFiles.length < COMMIT_FILES_PAGE_SIZE) {
+      return files;
+    }
   }
+}
+
+// Most commits whose files are looked up one by one for a single draft; each costs at least one
+// GitHub request, so larger ranges would drain the shared rate limit
+const MAX_FILE_LOOKUP_COMMITS = 250;
 
-  if (!data || data.length === 0) {
-    return false;
+// Files touched by each commit, keyed by full commit SHA
+export async function fetchFilesForCommits(repo: string, commits: any[], token?: string): Promise<Map<string, string[]>> {
+  if (commits.length > MAX_FILE_LOOKUP_COMMITS) {
+    throw new ValidationError(
+      `Path scopes and path rules need the files of every commit, which is limited to ${MAX_FILE_LOOKUP_COMMITS} commits; this range has ${commits.length}. Narrow the range and try again.`
+    );
   }
 
-  // Create a set of new commit SHAs for efficient lookup
-  const newCommitShas = new Set(newCommitsList);
+  const files = await mapWithConcurrency(commits, GITHUB_LOOKUP_CONCURRENCY, commit => fetchCommitFiles(repo, commit.sha, token));
+  return new Map(commits.map((commit, index) => [commit.sha, files[index]]));
+}
 
-  // Check each existing release for overlap
-  for (const existing of data) {
-    const existingCommitsList = existing.commits_list || [];
-    
-    // Check if any commits overlap between the two lists
-    const hasOverlap = existingCommitsList.some((commitSha: string) => newCommitShas.has(commitSha));
-    
-    if (hasOverlap) {
-      return true;
+// Most recent parseable version published for the repository, branch and path scope
+async function fetchPreviousVersion(store: ReleaseStore, repo: string, branch: string, scopeKey: string): Promise<string | null> {
+  const releases = await store.listReleases({ repo, branch, pathScope: scopeKey, limit: 50 });
+
+  for (const release of releases) {
+    const candidate = [release.version, release.head_tag].find(tag => tag && parseVersion(tag));
+    if (candidate) {
+      return candidate;
     }
   }
 
-  return false;
+  return null;
 }
 
-export async function generateChangelog(commits: any[]): Promise<string> {
-  // No need to check for empty commits here since we validate before calling this function
-  const commitSummaries = commits.map(commit => ({
-    sha: commit.sha.substring(0, 7),
-    message: commit.commit.message.split('\n')[0],
-    author: commit.commit.author.name,
-    date: commit.commit.author.date
-  }));
+// A commit left out of the draft because an existing release already includes it
+interface SkippedCommit {
+  sha: string;
+  title: string;
+  release: Omit<ReleaseOverlap, 'shas'>;
+}
 
-  // Get date range for the changelog
-  const dates = commitSummaries.map(c => new Date(c.date)).sort((a, b) => b.getTime() - a.getTime());
-  const latestDate = dates[0];
-  const earliestDate = dates[dates.length - 1];
-  
-  const formatDate = (date: Date) => date.toISOString().split('T')[0];
+// Attribute each already-published commit to the newest release that includes it
+function describeSkippedCommits(commits: any[], overlaps: ReleaseOverlap[]): SkippedCommit[] {
+  const releaseBySha = new Map<string, Omit<ReleaseOverlap, 'shas'>>();
+  for (const { shas, ...release } of overlaps) {
+    shas.forEach(sha => releaseBySha.has(sha) || releaseBySha.set(sha, release));
+  }
+
+  return commits
+    .filter(commit => releaseBySha.has(commit.sha))
+    .map(commit => ({
+      sha: commit.sha,
+      title: commit.commit.message.split('\n')[0],
+      release: releaseBySha.get(commit.sha)!,
+    }));
+}
+
+// Rough token estimate (~4 characters per token for English text and code)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Commit logs above this estimate are summarized in chunks before the final pass
+const SINGLE_PASS_TOKEN_BUDGET = 6000;
+
+// Target size of the commit log sent with each chunk summarization request
+const CHUNK_TOKEN_BUDGET = 4000;
+
+// Number of chunk summarization requests in flight at once
+const CHUNK_CONCURRENCY = 4;
+
+const SYSTEM_PROMPT = 'You are a technical writer responsible for creating precise and professional software changelogs. Your task is to produce a detailed, objective summary of code changes based on commit messages. Focus on clarity, accuracy, and technical detail.';
+
+interface CommitSummary {
+  sha: string;
+  message: string;
+  author: string;
+  date: string;
+  pullRequest?: PullRequestInfo;
+  classification: ClassifiedCommit;
+}
+
+// Longest PR description excerpt included in the prompt
+const PR_BODY_MAX_LENGTH = 500;
+
+// Strip template comments and collapse whitespace so PR bodies stay compact
+function summarizePullRequestBody(body: string): string {
+  const text = body.replace(/<!--[\s\S]*?-->/g, '').replace(/\s+/g, ' ').trim();
+  return text.length > PR_BODY_MAX_LENGTH ? text.substring(0, PR_BODY_MAX_LENGTH) + '...' : text;
+}
+
+// The PR description is only included on the first commit that references it
+function formatCommitLine(commit: CommitSummary, includePullRequestDetails: boolean): string {
+  const { category, breaking } = commit.classification;
+  const markers = `${category ? ` [category: ${category}]` : ''}${breaking ? ' [breaking]' : ''}`;
+  const line = `- ${commit.sha}: ${commit.message} (${commit.author})${markers}`;
+  const pull = commit.pullRequest;
+  if (!pull) {
+    return line;
+  }
 
-  const prompt = `
+  const reference = `[PR #${pull.number}](${pull.url})`;
+  if (!includePullRequestDetails) {
+    return `${line} ${reference}`;
+  }
+
+  const details = [
+    `title: ${pull.title}`,
+    pull.labels.length > 0 && `labels: ${pull.labels.join(', ')}`,
+    pull.mergedBy && `merged by: ${pull.mergedBy}`,
+  ].filter(Boolean).join('; ');
+  const body = summarizePullRequestBody(pull.body);
+
+  return `${line} ${reference} (${details})${body ? `\n  ${body}` : ''}`;
+}
+
+// Split items into consecutive groups whose estimated size stays within the budget
+export function chunkByTokens<T>(items: T[], toText: (item: T) => string, budget: number): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let currentTokens = 0;
+
+  for (const item of items) {
+    const tokens = estimateTokens(toText(item));
+    if (current.length > 0 && currentTokens + tokens > budget) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(item);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+async function complete(provider: LLMProvider, prompt: string, maxTokens: number, signal?: AbortSignal): Promise<string> {
+  return provider.complete({
+    system: SYSTEM_PROMPT,
+    prompt,
+    maxTokens,
+    temperature: 0.3,
+    signal,
+  });
+}
+
+interface ChangelogPromptInput {
+  commitLog: string;
+  earliestDate: string;
+  latestDate: string;
+  // True when commitLog holds category-tagged notes from the chunked map step
+  isNotes: boolean;
+  breakingChanges: BreakingChange[];
+  version?: string;
+}
+
+function buildChangelogPrompt({ commitLog, earliestDate, latestDate, isNotes, breakingChanges, version }: ChangelogPromptInput): string {
+  return `
   You are a senior technical writer responsible for producing clear, factual, and detailed changelogs for a developer audience.
 
   **Instructions:**
   - **Tone:** Your tone should be objective, professional, and formal. Avoid marketing language, enthusiasm, or informalities.
-  - **Goal:** The primary goal is to create a technically precise and exhaustive summary of changes. Synthesize the provided commit messages into a coherent log.
-  - **Summarization:** Group related commits under a single, descriptive bullet point where logical. For example, multiple commits related to fixing a single bug or implementing one feature should be summarized together.
+  - **Goal:** The primary goal is to create a technically precise and exhaustive summary of changes. Synthesize the provided ${isNotes ? 'release notes' : 'commit messages'} into a coherent log.
+  - **Summarization:** Group related ${isNotes ? 'notes' : 'commits'} under a single, descriptive bullet point where logical. For example, multiple ${isNotes ? 'notes' : 'commits'} related to fixing a single bug or implementing one feature should be summarized together.
   - **Clarity:** Ensure that each entry clearly describes the change that was made.
 
   **Formatting Rules:**
-  - **Main Header:** Start with a top-level header that includes the release version and date (e.g., "# Release v1.2.3 – ${formatDate(latestDate)}").
+  - **Main Header:** ${version
+    ? `Start with exactly this top-level header: "# Release ${version} – ${latestDate}". Do not use any other version number.`
+    : `Start with a top-level header that includes the release version and date (e.g., "# Release v1.2.3 – ${latestDate}").`}
   - **Categorization:** Use the following categories to group changes. If a category has no items, omit it.
     - **New Features:** For new, user-facing capabilities.
     - **Improvements:** For enhancements to existing features.
     - **Bug Fixes:** For bug resolutions.
     - **Internal Changes:** For internal refactoring, dependency updates, and other non-user-facing modifications.
+  - **Pre-classified Changes:** ${isNotes
+    ? 'Every note is already tagged with its category. Keep each note in exactly that category.'
+    : 'Commits marked "[category: ...]" were classified from their Conventional Commits type. List each of them under exactly that category and never move them. Categorize unmarked commits yourself.'}
+  - **Breaking Changes:** ${breakingChanges.length > 0
+    ? 'Directly after the main header and before every other category, add a "## Breaking Changes" section. It must contain every change from the Detected Breaking Changes list below, each with its migration notes. Entries marked "[breaking]" belong to the same changes; do not repeat them in other categories.'
+    : 'Entries marked "[breaking]" introduce breaking changes. List them in a "## Breaking Changes" section directly after the main header, before every other category.'}
   - **Content:**
     - Write in complete sentences.
-    - Each bullet point must accurately reflect the changes from the commit log.
-    - Include the relevant commit SHAs in parentheses at the end of each bullet point for traceability.
+    - Each bullet point must accurately reflect the changes from the ${isNotes ? 'notes' : 'commit log'}.
+    - Include the relevant commit SHAs in parentheses at the end of each bullet point for traceability. When a change has an associated pull request, also include its markdown link before the SHAs, e.g. "([#123](https://github.com/owner/repo/pull/123), abc1234)".
+    - Prefer pull request titles and descriptions over commit messages when describing a change.
 
-  **Commit Log:**
-  The following is a list of commits for the period from ${formatDate(earliestDate)} to ${formatDate(latestDate)}. Use this as the source of truth for your changelog.
+  **${isNotes ? 'Release Notes' : 'Commit Log'}:**
+  ${isNotes
+    ? `The following are category-tagged notes summarizing every commit for the period from ${earliestDate} to ${latestDate}. Each note begins with its category in square brackets. Use them as the source of truth for your changelog and keep every SHA they reference.`
+    : `The following is a list of commits for the period from ${earliestDate} to ${latestDate}. Use this as the source of truth for your changelog.`}
 
-  ${commitSummaries.map(c => `- ${c.sha}: ${c.message} (${c.author})`).join('\n')}
+  ${commitLog}
+${breakingChanges.length > 0 ? `
+  **Detected Breaking Changes:**
+  These were detected from commit footers, "!" markers, pull request labels and removed or renamed source files. Include all of them.
 
+${formatBreakingChanges(breakingChanges)}
+` : ''}
   Generate a detailed and objective changelog based on these instructions.
   `;
+}
 
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: [
-      {
-        role: 'system',
-        content: 'You are a technical writer responsible for creating precise and professional software changelogs. Your task is to produce a detailed, objective summary of code changes based on commit messages. Focus on clarity, accuracy, and technical detail.'
-      },
-      {
-        role: 'user',
-        content: prompt
-      }
-    ],
-    max_tokens: 2000,
+function buildChunkPrompt(lines: string, isNotes: boolean): string {
+  return `
+  Summarize the following ${isNotes ? 'category-tagged notes' : 'commits'} into intermediate release notes that will later be merged with notes from other batches.
+
+  **Rules:**
+  - Output one note per line and nothing else: no headers, no commentary.
+  - Start every line with exactly one category in square brackets: ${CHANGELOG_CATEGORIES.map(c => `[${c}]`).join(', ')}.
+  - ${isNotes
+    ? 'Keep the category each input note already has.'
+    : 'Commits marked "[category: ...]" must keep exactly that category. Choose a category for unmarked commits.'} Never combine changes from different categories into one note.
+  - Keep the "[breaking]" marker at the end of any note that covers a breaking change.
+  - Group closely related changes into a single note, but never drop a change.
+  - End every note with the related pull request links and commit SHAs in parentheses, e.g. "([#123](https://github.com/owner/repo/pull/123), abc1234, def5678)".
+  - Prefer pull request titles and descriptions over commit messages when describing a change.
+
+  **Input:**
+  ${lines}
+  `;
+}
+
+// Keep only well-formed "[Category] ..." lines from an intermediate summary
+function parseNotes(output: string): string[] {
+  return output
+    .split('\n')
+    .map(line => line.trim().replace(/^[-*]\s+/, ''))
+    .filter(line => CHANGELOG_CATEGORIES.some(category => line.startsWith(`[${category}]`)));
+}
+
+// Map step: summarize each chunk of input lines into category-tagged notes
+async function summarizeChunks(provider: LLMProvider, lines: string[], isNotes: boolean, signal?: AbortSignal): Promise<string[]> {
+  const chunks = chunkByTokens(lines, line => line, CHUNK_TOKEN_BUDGET);
+  const notes: string[][] = [];
+
+  for (let i = 0; i < chunks.length; i += CHUNK_CONCURRENCY) {
+    const batch = chunks.slice(i, i + CHUNK_CONCURRENCY);
+    const results = await Promise.all(
+      batch.map(chunk => complete(provider, buildChunkPrompt(chunk.join('\n'), isNotes), 1500, signal))
+    );
+    notes.push(...results.map(parseNotes));
+  }
+
+  return notes.flat();
+}
+
+export interface GenerateChangelogOptions {
+  pullRequests?: Map<string, PullRequestInfo>;
+  provider?: LLMProvider;
+  breakingChanges?: BreakingChange[];
+  // Version for the release header, e.g. "v1.3.0"
+  version?: string;
+  signal?: AbortSignal;
+}
+
+// Build the final changelog prompt, summarizing large ranges in chunks first
+async function prepareChangelogPrompt(
+  commits: any[],
+  { pullRequests = new Map(), provider, breakingChanges = [], version, signal }: GenerateChangelogOptions & { provider: LLMProvider }
+): Promise<{ prompt: string; maxTokens: number }> {
+  // No need to check for empty commits here since we validate before calling this function
+  const commitSummaries: CommitSummary[] = commits.map(commit => ({
+    sha: commit.sha.substring(0, 7),
+    message: commit.commit.message.split('\n')[0],
+    author: commit.commit.author.name,
+    date: commit.commit.author.date,
+    pullRequest: pullRequests.get(commit.sha),
+    classification: classifyCommit(commit.sha, commit.commit.message)
+  }));
+
+  // Get date range for the changelog
+  const dates = commitSummaries.map(c => new Date(c.date)).sort((a, b) => b.getTime() - a.getTime());
+  const latestDate = dates[0];
+  const earliestDate = dates[dates.length - 1];
+  
+  const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+  const describedPullRequests = new Set<number>();
+  const commitLines = commitSummaries.map(commit => {
+    const number = commit.pullRequest?.number;
+    const isFirstReference = number !== undefined && !describedPullRequests.has(number);
+    if (isFirstReference) {
+      describedPullRequests.add(number);
+    }
+    return formatCommitLine(commit, isFirstReference);
+  });
+
+  // Small ranges fit in a single prompt
+  if (estimateTokens(commitLines.join('\n')) <= SINGLE_PASS_TOKEN_BUDGET) {
+    return {
+      prompt: buildChangelogPrompt({
+        commitLog: commitLines.join('\n'),
+        earliestDate: formatDate(earliestDate),
+        latestDate: formatDate(latestDate),
+        isNotes: false,
+        breakingChanges,
+        version,
+      }),
+      maxTokens: 2000,
+    };
+  }
+
+  // Large ranges: summarize commits in chunks, then condense the notes until they fit in one merge prompt
+  let notes = await summarizeChunks(provider, commitLines, false, signal);
+  if (notes.length === 0) {
+    throw new LLMProviderError(provider.name, 'returned no usable release notes for the commit range');
+  }
+
+  while (notes.length > 1 && estimateTokens(notes.join('\n')) > SINGLE_PASS_TOKEN_BUDGET) {
+    const condensed = await summarizeChunks(provider, notes, true, signal);
+    // Stop if condensing no longer shrinks the notes
+    if (condensed.length === 0 || estimateTokens(condensed.join('\n')) >= estimateTokens(notes.join('\n'))) {
+      break;
+    }
+    notes = condensed;
+  }
+
+  return {
+    prompt: buildChangelogPrompt({
+      commitLog: notes.join('\n'),
+      earliestDate: formatDate(earliestDate),
+      latestDate: formatDate(latestDate),
+      isNotes: true,
+      breakingChanges,
+      version,
+    }),
+    maxTokens: 4000,
+  };
+}
+
+export async function generateChangelog(
+  commits: any[],
+  options: GenerateChangelogOptions = {}
+): Promise<string> {
+  const provider = options.provider ?? getLLMProvider();
+  const { prompt, maxTokens } = await prepareChangelogPrompt(commits, { ...options, provider });
+  const markdown = await complete(provider, prompt, maxTokens, options.signal);
+  if (!markdown) {
+    return '# Changelog\n\nFailed to generate changelog.';
+  }
+  // Models occasionally drift from the requested header, so enforce the inferred version
+  return options.version ? setReleaseHeaderVersion(markdown, options.version) : markdown;
+}
+
+// Same pipeline as generateChangelog, but the final pass is streamed as it is produced
+export async function* streamChangelog(
+  commits: any[],
+  options: GenerateChangelogOptions = {}
+): AsyncGenerator<string> {
+  const provider = options.provider ?? getLLMProvider();
+  const { prompt, maxTokens } = await prepareChangelogPrompt(commits, { ...options, provider });
+  yield* provider.stream({
+    system: SYSTEM_PROMPT,
+    prompt,
+    maxTokens,
     temperature: 0.3,
+    signal: options.signal,
+  });
+}
+
+// Stream the draft as Server-Sent Events: "meta" once, then "delta" chunks, then "done" or "error".
+// When the provider fails, a "fallback" event tells the client to discard partial output
+// before the template-rendered draft is sent.
+function streamDraftResponse(
+  commits: any[],
+  options: Omit<GenerateChangelogOptions, 'provider'> & { provider: LLMProvider | null },
+  metadata: Record<string, unknown>,
+  renderTemplate: () => Promise<string>,
+  requestSignal: AbortSignal
+): Response {
+  const abortController = new AbortController();
+  requestSignal.addEventListener('abort', () => abortController.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const sendTemplateDraft = async () => {
+        const markdown = await renderTemplate();
+        controller.enqueue(encodeServerSentEvent('delta', { text: markdown }));
+        controller.enqueue(encodeServerSentEvent('done', { markdown }));
+      };
+
+      controller.enqueue(encodeServerSentEvent('meta', metadata));
+
+      const { provider } = options;
+      let markdown = '';
+      try {
+        if (!provider) {
+          await sendTemplateDraft();
+        } else {
+          for await (const text of streamChangelog(commits, { ...options, provider, signal: abortController.signal })) {
+            markdown += text;
+            controller.enqueue(encodeServerSentEvent('delta', { text }));
+          }
+          const finalMarkdown = markdown && options.version ? setReleaseHeaderVersion(markdown, options.version) : markdown;
+          controller.enqueue(encodeServerSentEvent('done', { markdown: finalMarkdown || '# Changelog\n\nFailed to generate changelog.' }));
+        }
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          return;
+        }
+        try {
+          if (!(error instanceof LLMProviderError)) {
+            throw error;
+          }
+          console.warn('LLM generation failed, falling back to template:', error);
+          controller.enqueue(encodeServerSentEvent('fallback', { generator: 'template', fallback_reason: 'AI service unavailable' }));
+          await sendTemplateDraft();
+        } catch (streamError) {
+          console.error('Streaming generation error:', streamError);
+          controller.enqueue(encodeServerSentEvent('error', toErrorBody(streamError)));
+        }
+      }
+      controller.close();
+    },
+    cancel() {
+      // The client went away; stop the upstream completion
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
   });
+}
 
-  return response.choices[0]?.message?.content || '# Changelog\n\nFailed to generate changelog.';
+// Adapt GitHub commits and their pull requests for the template renderer
+function toTemplateCommits(
+  commits: any[],
+  pullRequests: Map<string, PullRequestInfo>,
+  files?: Map<string, string[]>
+): TemplateCommit[] {
+  return commits.map(commit => ({
+    sha: commit.sha,
+    title: commit.commit.message.split('\n')[0],
+    date: commit.commit.author.date,
+    classification: classifyCommit(commit.sha, commit.commit.message),
+    pullRequest: pullRequests.get(commit.sha),
+    files: files?.get(commit.sha),
+  }));
 }
 
 // Main API handler
 export async function POST(request: NextRequest) {
   try {
-    // Initialize OpenAI
-    initializeOpenAI();
+    // Callers may use their own GitHub token, e.g. for private repositories; otherwise GITHUB_PAT is used
+    const githubToken = getRequestGitHubToken(request);
+    if (!githubToken) {
+      validateEnvironment();
+    }
+    const store = getReleaseStore();
 
     // Parse and validate request body
-    const body = await request.json();
+    const body = await parseJsonBody(request);
     const validatedData = generateSchema.parse(body);
 
     const { repo, branch, mode, start, end, base, head } = validatedData;
+    const pathScope = normalizePathScope(validatedData.includePaths, validatedData.excludePaths);
+    const scopeKey = pathScopeKey(pathScope);
+
+    // Resolve the LLM provider up front; without a usable one the draft falls back to the template
+    let provider: LLMProvider | null = null;
+    let fallbackReason: string | null = null;
+    if (validatedData.generator === 'llm') {
+      try {
+        provider = getLLMProvider(validatedData.provider);
+      } catch (error) {
+        console.warn('LLM provider unavailable, falling back to template:', error);
+        fallbackReason = 'AI service not configured';
+      }
+    }
 
-    // Convert the range to SHA range for consistent overlap detection
-    const { baseSha, headSha } = await convertToShaRange(repo, branch, mode, { start, end, base, head });
+    // Resolve the range to SHAs and fetch every commit in it
+    const range = await fetchCommits(repo, branch, mode, { start, end, base, head }, githubToken);
+    const { totalCommits, baseSha, headSha } = range;
 
-    // Fetch commits from GitHub using the SHA range
-    const commits = await fetchCommits(repo, branch, mode, { start, end, base, head });
+    // Scoped changelogs only keep commits that touch a file inside the scope
+    let commits = range.commits;
+    let changedFiles = range.files;
+    let commitFiles: Map<string, string[]> | undefined;
+    if (!isEmptyPathScope(pathScope)) {
+      // A single commit's files are the range's, which the compare response already lists
+      commitFiles = commits.length === 1 && !range.filesTruncated
+        ? new Map([[commits[0].sha, changedFiles.map(file => file.filename)]])
+        : await fetchFilesForCommits(repo, commits, githubToken);
+      commits = commits.filter(commit => commitTouchesScope(commitFiles!.get(commit.sha) || [], pathScope));
+      changedFiles = changedFiles.filter(file => isPathInScope(file.previousFilename || file.filename, pathScope));
+    }
 
     // Check if any commits were found
     if (!commits || commits.length === 0) {
@@ -360,31 +887,91 @@ export async function POST(request: NextRequest) {
       } else if (mode === 'tag') {
         errorMessage = `No commits found between tag '${base}' and '${head}' on branch '${branch}'.`;
       }
+
+      if (!isEmptyPathScope(pathScope) && totalCommits > 0) {
+        errorMessage = `None of the ${totalCommits} commits in the specified range touch the selected paths.`;
+      }
       
-      return NextResponse.json(
-        { error: errorMessage },
-        { status: 404 }
-      );
+      throw new RangeEmptyError(errorMessage);
     }
 
     // Extract commit SHAs for overlap detection (use full SHA values)
-    const commitsList = commits.map(commit => commit.sha);
-
-    // Check for overlapping commits before generating changelog
-    const hasOverlap = await checkCommitsOverlap(repo, branch, commitsList);
-    if (hasOverlap) {
-      return NextResponse.json(
-        { error: 'A changelog for this commit range already exists. Some commits have already been included in another changelog.' },
-        { status: 400 }
-      );
+    let commitsList = commits.map(commit => commit.sha);
+    const scopedCommits = commits.length;
+
+    // Check for commits already published in this repository, branch and path scope
+    const overlaps = await store.findOverlappingReleases({ repo, branch, pathScope: scopeKey, shas: commitsList });
+    let skippedCommits: SkippedCommit[] = [];
+    if (overlaps.length > 0) {
+      const overlappingShas = new Set(overlaps.flatMap(overlap => overlap.shas));
+      if (validatedData.overlap === 'reject') {
+        throw new OverlapConflictError(
+          `A changelog for this commit range already exists. ${overlappingShas.size} of ${commitsList.length} commits have already been included in ${overlaps.length === 1 ? 'another changelog' : `${overlaps.length} other changelogs`}.`,
+          { releases: overlaps, overlapping_shas: [...overlappingShas] }
+        );
+      }
+
+      if (overlappingShas.size === commitsList.length) {
+        throw new RangeEmptyError(`All ${commitsList.length} commits in the specified range have already been published.`);
+      }
+
+      // Draft only the unpublished remainder
+      skippedCommits = describeSkippedCommits(commits, overlaps);
+      commits = commits.filter(commit => !overlappingShas.has(commit.sha));
+      commitsList = commits.map(commit => commit.sha);
+
+      // The compare file list covers the whole range; drop files the skipped commits touched so their
+      // removals and renames are not reported as breaking again. Per-commit files are looked up for
+      // whichever side is smaller; from the drafted side, files both sides touched are kept.
+      const touchedBy = (files: Map<string, string[]>, shas: string[]) => new Set(shas.flatMap(sha => files.get(sha) || []));
+      const touches = (paths: Set<string>, file: ChangedFile) => paths.has(file.filename) || paths.has(file.previousFilename || file.filename);
+      if (commitFiles || skippedCommits.length <= commits.length) {
+        const skippedFiles = commitFiles ?? await fetchFilesForCommits(repo, skippedCommits, githubToken);
+        const skippedPaths = touchedBy(skippedFiles, skippedCommits.map(skipped => skipped.sha));
+        changedFiles = changedFiles.filter(file => !touches(skippedPaths, file));
+      } else {
+        commitFiles = await fetchFilesForCommits(repo, commits, githubToken);
+        const draftedPaths = touchedBy(commitFiles, commitsList);
+        changedFiles = changedFiles.filter(file => touches(draftedPaths, file));
+      }
     }
 
-    // Generate changelog using AI only if no overlaps found
-    const markdown = await generateChangelog(commits);
+    // Resolve commits to their pull requests so the prompt sees titles, descriptions and labels
+    const pullRequests = await fetchPullRequestsForCommits(repo, commits, githubToken);
 
-    // Return the generated markdown with SHA range and commits list for database storage
-    return NextResponse.json({
-      markdown,
+    const classifications = commits.map(commit => classifyCommit(commit.sha, commit.commit.message));
+
+    // Breaking changes are detected deterministically and handed to both generators
+    const breakingChanges = detectBreakingChanges(
+      classifications.map(classification => ({
+        classification,
+        pullRequest: pullRequests.get(classification.sha),
+      })),
+      changedFiles
+    );
+
+    // Next version from the last published release and the kinds of changes in this range
+    const version = inferNextVersion({
+      headTag: mode === 'tag' ? head : undefined,
+      baseTag: mode === 'tag' ? base : undefined,
+      previousVersion: await fetchPreviousVersion(store, repo, branch, scopeKey),
+      bump: inferBump(classifications, breakingChanges.length > 0),
+    });
+
+    // Path rules need the files each commit touches, which the compare API does not include
+    const templateRules = [...(validatedData.templateRules ?? []), ...DEFAULT_TEMPLATE_RULES];
+    const renderTemplate = async () => {
+      const needsFiles = validatedData.templateRules?.some(rule => rule.paths && rule.paths.length > 0);
+      const files = commitFiles ?? (needsFiles ? await fetchFilesForCommits(repo, commits, githubToken) : undefined);
+      return renderTemplateChangelog(toTemplateCommits(commits, pullRequests, files), {
+        rules: templateRules,
+        breakingChanges,
+        version: version.next,
+      });
+    };
+
+    // SHA range and commits list for database storage
+    const draftMetadata = {
       repo,
       branch,
       mode,
@@ -393,6 +980,24 @@ export async function POST(request: NextRequest) {
       headSha,
       // Return the commits list for overlap detection
       commits_list: commitsList,
+      total_commits: totalCommits,
+      // Commits inside the path scope (equal to total_commits for whole-repository changelogs)
+      scoped_commits: scopedCommits,
+      // GitHub capped the range's changed-file list, so file-based breaking-change detection is partial
+      changed_files_truncated: range.filesTruncated,
+      // Already-published commits left out of the draft (overlap: "skip")
+      skipped_commits: skippedCommits,
+      path_scope: pathScope,
+      breaking_changes: breakingChanges,
+      has_breaking_changes: breakingChanges.length > 0,
+      version,
+      // Deterministic Conventional Commits classification that constrained the prompt
+      conventional_commits: classifications,
+      // How the draft is produced and, for LLM drafts, by which model
+      generator: provider ? 'llm' : 'template',
+      fallback_reason: fallbackReason,
+      provider: provider?.name ?? null,
+      model: provider?.model ?? null,
       // Also return original parameters for display purposes
       originalParams: {
         start,
@@ -400,72 +1005,37 @@ export async function POST(request: NextRequest) {
         base,
         head
       }
-    }, { status: 200 });
-
-  } catch (error) {
-    console.error('API Error:', error);
+    };
 
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: 'Invalid request data', details: error.errors },
-        { status: 400 }
-      );
+    if (validatedData.stream) {
+      return streamDraftResponse(commits, { pullRequests, provider, breakingChanges, version: version.next }, draftMetadata, renderTemplate, request.signal);
     }
 
-    if (error instanceof Error) {
-      if (error.message.includes('Missing required environment variables')) {
-        return NextResponse.json(
-          { error: 'Server configuration error' },
-          { status: 500 }
-        );
-      }
-
-      if (error.message.includes('Repository not found')) {
-        return NextResponse.json(
-          { error: 'Repository not found or not accessible' },
-          { status: 404 }
-        );
-      }
-
-      if (error.message.includes('Tag') && error.message.includes('not found')) {
-        return NextResponse.json(
-          { error: error.message },
-          { status: 404 }
-        );
-      }
-
-      if (error.message.includes('GitHub API error')) {
-        return NextResponse.json(
-          { error: 'Failed to fetch repository data' },
-          { status: 502 }
-        );
-      }
-
-      if (error.message.includes('OpenAI')) {
-        return NextResponse.json(
-          { error: 'AI service unavailable' },
-          { status: 503 }
-        );
-      }
-
-      if (error.message.includes('No commits found')) {
-        return NextResponse.json(
-          { error: error.message },
-          { status: 404 }
-        );
-      }
+    if (!provider) {
+      const markdown = await renderTemplate();
+      return NextResponse.json({ markdown, ...draftMetadata }, { status: 200 });
+    }
 
-      if (error.message.includes('Unable to check for existing changelogs')) {
-        return NextResponse.json(
-          { error: error.message },
-          { status: 500 }
-        );
+    // Generate changelog using AI only if no overlaps found, falling back to the template if the provider fails
+    try {
+      const markdown = await generateChangelog(commits, { pullRequests, provider, breakingChanges, version: version.next, signal: request.signal });
+      return NextResponse.json({ markdown, ...draftMetadata }, { status: 200 });
+    } catch (error) {
+      if (!(error instanceof LLMProviderError)) {
+        throw error;
       }
+      console.warn('LLM generation failed, falling back to template:', error);
+      const markdown = await renderTemplate();
+      return NextResponse.json({
+        markdown,
+        ...draftMetadata,
+        generator: 'template',
+        fallback_reason: 'AI service unavailable',
+      }, { status: 200 });
     }
 
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+  } catch (error) {
+    console.error('API Error:', error);
+    return errorResponse(error);
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getRequestGitHubToken } from '@/lib/auth';
+import { githubError, githubFetch } from '@/lib/github';
+import { ConfigurationError, errorResponse, ValidationError } from '@/lib/errors';
 
 export async function GET(request: NextRequest) {
   try {
@@ -6,39 +9,19 @@ export async function GET(request: NextRequest) {
     const repo = searchParams.get('repo');
 
     if (!repo) {
-      return NextResponse.json(
-        { error: 'Repository parameter is required' },
-        { status: 400 }
-      );
+      throw new ValidationError('Repository parameter is required');
     }
 
-    const token = process.env.GITHUB_PAT;
-    if (!token) {
-      return NextResponse.json(
-        { error: 'GitHub PAT not configured' },
-        { status: 500 }
-      );
+    // The caller's own token reaches private repositories; GITHUB_PAT is the fallback
+    const token = getRequestGitHubToken(request);
+    if (!token && !process.env.GITHUB_PAT) {
+      throw new ConfigurationError('GitHub PAT not configured');
     }
 
-    const response = await fetch(`https://api.github.com/repos/${repo}/tags`, {
-      headers: {
-        'Authorization': `token ${token}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'User-Agent': 'Relix-Changelog-Generator'
-      }
-    });
+    const response = await githubFetch(`/repos/${repo}/tags`, { token });
 
     if (!response.ok) {
-      if (response.status === 404) {
-        return NextResponse.json(
-          { error: 'Repository not found or not accessible' },
-          { status: 404 }
-        );
-      }
-      return NextResponse.json(
-        { error: `GitHub API error: ${response.status} ${response.statusText}` },
-        { status: response.status }
-      );
+      throw githubError(response, 'Repository not found or not accessible');
     }
 
     const tags = await response.json();
@@ -46,9 +29,6 @@ export async function GET(request: NextRequest) {
 
   } catch (error) {
     console.error('GitHub tags API error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { NextRequest } from 'next/server';
+import { ImageResponse } from 'next/og';
+import { format } from 'date-fns';
+import { errorResponse, NotFoundError, ValidationError } from '@/lib/errors';
+import { markdownSectionCounts, SectionCount } from '@/lib/markdown';
+import { listPublicReleases, transformReleaseSlice } from '@/lib/releases';
+import { OG_IMAGE_SIZE, SITE_NAME } from '@/lib/site';
+import { getReleaseStore } from '@/lib/storage';
+
+// Category chips that fit on one line of the image
+const MAX_SECTIONS = 4;
+
+interface OgImageContent {
+  repo: string;
+  title: string;
+  details: string[];
+  sections: SectionCount[];
+  breaking: boolean;
+}
+
+// Adds up section counts across releases, keeping the order sections first appear in
+function sumSectionCounts(perRelease: SectionCount[][]): SectionCount[] {
+  const totals = new Map<string, SectionCount>();
+  for (const sections of perRelease) {
+    for (const { title, count } of sections) {
+      const key = title.toLowerCase();
+      const total = totals.get(key) ?? { title, count: 0 };
+      total.count += count;
+      totals.set(key, total);
+    }
+  }
+  return [...totals.values()];
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function OgImage({ repo, title, details, sections, breaking }: OgImageContent) {
+  const [owner, name] = repo.split('/');
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        padding: 72,
+        background: 'linear-gradient(135deg, #0f172a 0%, #1e293b 100%)',
+        color: '#f8fafc',
+      }}
+    >
+      <div style={{ display: 'flex', fontSize: 36, fontWeight: 700, color: '#10b981' }}>{SITE_NAME}</div>
+
+      <div style={{ display: 'flex', flexDirection: 'column' }}>
+        <div style={{ display: 'flex', fontSize: 44, color: '#94a3b8' }}>
+          <span>{owner}/</span>
+          <span style={{ color: '#f8fafc' }}>{name}</span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', marginTop: 12 }}>
+          <div style={{ display: 'flex', fontSize: 80, fontWeight: 700, lineHeight: 1.1 }}>{title}</div>
+          {breaking && (
+            <div
+              style={{
+                display: 'flex',
+                marginLeft: 32,
+                padding: '8px 20px',
+                borderRadius: 12,
+                fontSize: 28,
+                background: '#7f1d1d',
+                color: '#fecaca',
+              }}
+            >
+              Breaking
+            </div>
+          )}
+        </div>
+        <div style={{ display: 'flex', marginTop: 20, fontSize: 30, color: '#94a3b8' }}>{details.join('  ·  ')}</div>
+      </div>
+
+      <div style={{ display: 'flex' }}>
+        {sections.slice(0, MAX_SECTIONS).map(section => (
+          <div
+            key={section.title}
+            style={{
+              display: 'flex',
+              marginRight: 20,
+              padding: '12px 24px',
+              borderRadius: 12,
+              fontSize: 28,
+              background: '#1e3a8a',
+              color: '#dbeafe',
+            }}
+          >
+            {`${section.count} ${section.title}`}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// GET handler - Open Graph image for a repository's changelog, or for one release with ?release=<id>.
+// Like the pages they illustrate, images only cover releases of public repositories.
+export async function GET(request: NextRequest) {
+  try {
+    const store = getReleaseStore();
+
+    const { searchParams } = request.nextUrl;
+    const repo = searchParams.get('repo');
+    const releaseId = searchParams.get('release');
+
+    if (!repo || !/^[^/]+\/[^/]+$/.test(repo)) {
+      throw new ValidationError('Repository parameter is required in owner/name format');
+    }
+
+    let content: OgImageContent;
+
+    if (releaseId) {
+      const slice = await store.getRelease(releaseId);
+      if (!slice || slice.repo !== repo || slice.unpublished_at || slice.private_repo) {
+        throw new NotFoundError('Changelog not found');
+      }
+      const release = transformReleaseSlice(slice);
+      content = {
+        repo,
+        title: release.tag || release.range,
+        details: [format(new Date(release.publishedAt), 'MMMM d, yyyy'), release.branch],
+        sections: markdownSectionCounts(release.markdown),
+        breaking: release.hasBreakingChanges,
+      };
+    } else {
+      const releases = (await listPublicReleases(store, repo)).map(transformReleaseSlice);
+      const latest = releases[0];
+      content = {
+        repo,
+        title: 'Changelog',
+        details: latest
+          ? [plural(releases.length, 'release'), `Latest ${latest.tag || latest.range}`, format(new Date(latest.publishedAt), 'MMMM d, yyyy')]
+          : ['No releases yet'],
+        sections: sumSectionCounts(releases.map(release => markdownSectionCounts(release.markdown))),
+        breaking: false,
+      };
+    }
+
+    return new ImageResponse(<OgImage {...content} />, {
+      ...OG_IMAGE_SIZE,
+      // Releases can be edited, so images are not cached for long
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return errorResponse(error);
+  }
+}
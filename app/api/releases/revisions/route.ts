@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { assertCanManageRelease, filterVisibleReleases, requireUser } from '@/lib/auth';
+import { errorResponse, NotFoundError, parseJsonBody, ValidationError } from '@/lib/errors';
+import { editReleaseMarkdown } from '@/lib/revisions';
+import { getReleaseStore, ReleaseRevision } from '@/lib/storage';
+
+// Transform database record to frontend format
+function transformRevision(revision: ReleaseRevision) {
+  return {
+    revision: revision.revision,
+    author: revision.author,
+    createdAt: revision.created_at,
+    restoredFrom: revision.restored_from,
+  };
+}
+
+// Validation schema for POST requests
+const restoreRevisionSchema = z.object({
+  releaseId: z.string().min(1, 'Release ID is required'),
+  revision: z.number().int().positive(),
+});
+
+// GET handler - list a release's revisions, or fetch one with its markdown
+export async function GET(request: NextRequest) {
+  try {
+    const store = getReleaseStore();
+
+    const { searchParams } = new URL(request.url);
+    const releaseId = searchParams.get('releaseId');
+    const revisionParam = searchParams.get('revision');
+
+    if (!releaseId) {
+      throw new ValidationError('releaseId parameter is required');
+    }
+
+    // Private repositories' history is hidden like their releases
+    const release = await store.getRelease(releaseId);
+    if (!release || (await filterVisibleReleases(request, [release])).length === 0) {
+      throw new NotFoundError('Changelog not found');
+    }
+
+    // Unpublished releases' history is limited to those who may see the release itself
+    if (release.unpublished_at) {
+      const user = await requireUser(request);
+      await assertCanManageRelease(request, user, release);
+    }
+
+    if (revisionParam === null) {
+      // Oldest first; markdown is left out of the listing and fetched per revision
+      const revisions = await store.listRevisions(releaseId);
+      return NextResponse.json(revisions.map(transformRevision));
+    }
+
+    const revisionNumber = Number(revisionParam);
+    if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+      throw new ValidationError('revision must be a positive integer');
+    }
+
+    const revision = await store.getRevision(releaseId, revisionNumber);
+    if (!revision) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    return NextResponse.json({ ...transformRevision(revision), markdown: revision.markdown });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return errorResponse(error);
+  }
+}
+
+// POST handler - restore an earlier revision as the release's current markdown
+export async function POST(request: NextRequest) {
+  try {
+    const store = getReleaseStore();
+    const user = await requireUser(request);
+
+    // Parse and validate request body
+    const body = await parseJsonBody(request);
+    const { releaseId, revision } = restoreRevisionSchema.parse(body);
+
+    const release = await store.getRelease(releaseId);
+    if (!release) {
+      throw new NotFoundError('Changelog not found');
+    }
+    await assertCanManageRelease(request, user, release);
+
+    const restored = await store.getRevision(releaseId, revision);
+    if (!restored) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    // Restoring appends a new revision rather than rewinding, so the history stays complete
+    const data = await editReleaseMarkdown(store, release, restored.markdown, { author: user.login ?? user.id, restoredFrom: revision });
+    if (!data) {
+      throw new NotFoundError('Changelog not found');
+    }
+
+    const revisions = await store.listRevisions(releaseId);
+    return NextResponse.json({
+      id: data.id,
+      markdown: data.markdown,
+      hasBreakingChanges: data.has_breaking_changes,
+      revision: transformRevision(revisions[revisions.length - 1]),
+    });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return errorResponse(error);
+  }
+}
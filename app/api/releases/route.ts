@@ -1,73 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import { z } from 'zod';
-
-// Environment validation
-function validateEnvironment() {
-  const required = {
-    NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
-    SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
-  };
-
-  const missing = Object.entries(required)
-    .filter(([_, value]) => !value)
-    .map(([key]) => key);
-
-  if (missing.length > 0) {
-    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
-  }
-
-  return required as Record<string, string>;
-}
-
-// Database types matching your schema
-interface ReleaseSlice {
-  id: string;
-  published_at: string;
-  repo: string;
-  branch: string;
-  mode: 'date' | 'sha' | 'tag';
-  start_date?: string;
-  end_date?: string;
-  base_sha?: string;
-  head_sha?: string;
-  base_tag?: string;
-  head_tag?: string;
-  markdown: string;
-  commits_list: string[]; // Array of commit SHAs
-  owner_id?: string;
-}
-
-// Transform database record to frontend format
-function transformReleaseSlice(slice: ReleaseSlice) {
-  // Create a display tag/range based on the mode
-  let tag = null;
-  let range = '';
-
-  if (slice.mode === 'date') {
-    const startDate = slice.start_date ? new Date(slice.start_date).toISOString().split('T')[0] : 'unknown';
-    const endDate = slice.end_date ? new Date(slice.end_date).toISOString().split('T')[0] : 'unknown';
-    range = `${startDate} to ${endDate}`;
-  } else if (slice.mode === 'sha') {
-    const baseSha = slice.base_sha?.substring(0, 7) || 'unknown';
-    const headSha = slice.head_sha?.substring(0, 7) || 'unknown';
-    range = `${baseSha}...${headSha}`;
-  } else if (slice.mode === 'tag') {
-    tag = slice.head_tag || 'unknown';
-    range = `${slice.base_tag || 'unknown'}...${slice.head_tag || 'unknown'}`;
-  }
-
-  return {
-    id: slice.id,
-    repo: slice.repo,
-    tag,
-    range,
-    publishedAt: slice.published_at,
-    markdown: slice.markdown,
-    mode: slice.mode,
-    branch: slice.branch
-  };
-}
+import { assertCanManageRelease, assertRepoWriteAccess, filterVisibleReleases, isRepoMaintainer, requireUser } from '@/lib/auth';
+import { hasBreakingChangesSection } from '@/lib/breaking-changes';
+import { normalizePathScope, pathScopeKey } from '@/lib/path-scope';
+import { errorResponse, NotFoundError, OverlapConflictError, parseJsonBody, ValidationError } from '@/lib/errors';
+import { editReleaseMarkdown } from '@/lib/revisions';
+import { transformReleaseSlice } from '@/lib/releases';
+import { getReleaseStore, NewReleaseSlice } from '@/lib/storage';
 
 // Validation schema for POST requests
 const createReleaseSchema = z.object({
@@ -78,6 +17,10 @@ const createReleaseSchema = z.object({
   headSha: z.string().min(1, 'Head SHA is required'),
   markdown: z.string().min(1, 'Markdown content is required'),
   commits_list: z.array(z.string()).min(1, 'Commits list is required'),
+  version: z.string().trim().min(1).max(64).optional(),
+  // Path scope the draft was generated for; overlap detection is per scope
+  includePaths: z.array(z.string().min(1).max(200)).max(50).optional(),
+  excludePaths: z.array(z.string().min(1).max(200)).max(50).optional(),
   originalParams: z.object({
     start: z.string().optional(),
     end: z.string().optional(),
@@ -86,146 +29,123 @@ const createReleaseSchema = z.object({
   }).optional(),
 });
 
+// Validation schema for PUT requests
+const updateReleaseSchema = z.object({
+  id: z.string().min(1, 'ID is required'),
+  markdown: z.string().min(1, 'Markdown content is required'),
+});
+
+// Validation schema for PATCH requests
+const setPublishedSchema = z.object({
+  id: z.string().min(1, 'ID is required'),
+  published: z.boolean(),
+});
+
 // GET handler - fetch releases for a repository
 export async function GET(request: NextRequest) {
   try {
-    const env = validateEnvironment();
-    const supabase = createClient(env.NEXT_PUBLIC_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
+    const store = getReleaseStore();
 
     // Get repo from query params
     const { searchParams } = new URL(request.url);
     const repo = searchParams.get('repo');
     const branch = searchParams.get('branch');
+    // Unpublished releases are only listed on request, e.g. so they can be republished
+    const includeUnpublished = searchParams.get('includeUnpublished') === 'true';
 
     if (!repo) {
-      return NextResponse.json(
-        { error: 'Repository parameter is required' },
-        { status: 400 }
-      );
+      throw new ValidationError('Repository parameter is required');
     }
 
-    // Fetch releases from database
-    let query = supabase
-      .from('release_slices')
-      .select('*')
-      .eq('repo', repo);
-
-    if (branch) {
-      query = query.eq('branch', branch);
-    }
+    // Only those who could republish an unpublished release may see it
+    const user = includeUnpublished ? await requireUser(request) : null;
 
-    const { data, error } = await query.order('published_at', { ascending: false });
+    // Fetch releases, newest first
+    let data = await store.listReleases({ repo, branch: branch || undefined, includeUnpublished });
 
-    if (error) {
-      console.error('Database error:', error);
-      return NextResponse.json(
-        { error: 'Unable to load changelog releases. Please refresh the page or try again later.' },
-        { status: 500 }
-      );
+    if (user) {
+      const collaborator = await isRepoMaintainer(request, user, repo);
+      data = data.filter(slice => !slice.unpublished_at || collaborator || slice.owner_id === user.id);
     }
 
+    // Private repositories' releases need a GitHub token that can see the repository
+    data = await filterVisibleReleases(request, data);
+
     // Transform the data to match frontend expectations
-    const releases = (data || []).map(transformReleaseSlice);
+    const releases = data.map(transformReleaseSlice);
 
     return NextResponse.json(releases);
 
   } catch (error) {
     console.error('API Error:', error);
-
-    if (error instanceof Error && error.message.includes('Missing required environment variables')) {
-      return NextResponse.json(
-        { error: 'Server configuration error' },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
 }
 
 // PUT handler - update existing release markdown
 export async function PUT(request: NextRequest) {
   try {
-    const env = validateEnvironment();
-    const supabase = createClient(env.NEXT_PUBLIC_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
-
-    // Parse request body
-    const body = await request.json();
-    const { id, markdown } = body;
-
-    if (!id || !markdown) {
-      return NextResponse.json(
-        { error: 'ID and markdown are required' },
-        { status: 400 }
-      );
-    }
+    const store = getReleaseStore();
+    const user = await requireUser(request);
 
-    // Update the markdown content
-    const { data, error } = await supabase
-      .from('release_slices')
-      .update({ markdown })
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Database update error:', error);
-      return NextResponse.json(
-        { error: 'Unable to update changelog. Please try again or contact support if the problem persists.' },
-        { status: 500 }
-      );
+    // Parse and validate request body
+    const body = await parseJsonBody(request);
+    const { id, markdown } = updateReleaseSchema.parse(body);
+
+    const release = await store.getRelease(id);
+    if (!release) {
+      throw new NotFoundError('Changelog not found');
     }
+    await assertCanManageRelease(request, user, release);
+
+    // Update the markdown content and record the edit as a new revision
+    const data = await editReleaseMarkdown(store, release, markdown, { author: user.login ?? user.id });
 
     if (!data) {
-      return NextResponse.json(
-        { error: 'Changelog not found' },
-        { status: 404 }
-      );
+      throw new NotFoundError('Changelog not found');
     }
 
     // Transform and return the updated data
-    const updatedRelease = transformReleaseSlice(data as ReleaseSlice);
+    const updatedRelease = transformReleaseSlice(data);
     return NextResponse.json(updatedRelease);
 
   } catch (error) {
     console.error('API Error:', error);
-
-    if (error instanceof Error && error.message.includes('Missing required environment variables')) {
-      return NextResponse.json(
-        { error: 'Server configuration error' },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
 }
 
 // POST handler - create new release with markdown
 export async function POST(request: NextRequest) {
   try {
-    const env = validateEnvironment();
-    const supabase = createClient(env.NEXT_PUBLIC_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
+    const store = getReleaseStore();
+    const user = await requireUser(request);
 
     // Parse and validate request body
-    const body = await request.json();
+    const body = await parseJsonBody(request);
     const validatedData = createReleaseSchema.parse(body);
 
-    const { repo, branch, mode, baseSha, headSha, markdown, commits_list, originalParams } = validatedData;
+    const { repo, branch, mode, baseSha, headSha, markdown, commits_list, version, originalParams } = validatedData;
+    const pathScope = normalizePathScope(validatedData.includePaths, validatedData.excludePaths);
+
+    // Only maintainers of the repository may publish its changelog
+    const access = await assertRepoWriteAccess(request, user, repo);
 
     // Prepare insert data - store commits_list for overlap detection and SHA range for display
-    const insertData: Partial<ReleaseSlice> = {
+    const insertData: NewReleaseSlice = {
       repo,
       branch,
       mode,
       markdown,
       commits_list, // Store the full commits_list for overlap detection
+      has_breaking_changes: hasBreakingChangesSection(markdown), // Lets the public page badge the release
+      ...(version && { version }), // Basis for the next release's inferred version
+      include_paths: pathScope.include,
+      exclude_paths: pathScope.exclude,
+      path_scope: pathScopeKey(pathScope),
+      owner_id: user.id, // The publisher can edit and delete the release later
+      verified_publisher: true,
+      private_repo: access.private, // Hidden from readers who cannot see the repository
       base_sha: baseSha, // Keep SHA range for display purposes
       head_sha: headSha,
       // Store original parameters for display purposes if provided
@@ -235,54 +155,93 @@ export async function POST(request: NextRequest) {
       ...(originalParams?.head && mode === 'tag' && { head_tag: originalParams.head }),
     };
 
-    // Insert into database
-    const { data, error } = await supabase
-      .from('release_slices')
-      .insert(insertData)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Database insert error:', error);
-      return NextResponse.json(
-        { error: 'Unable to save changelog. Please try again or contact support if the problem persists.' },
-        { status: 500 }
-      );
-    }
+    // Insert into the release store; the published text becomes revision 1
+    const data = await store.createRelease(insertData);
+    await store.createRevision({ release_id: data.id, markdown, author: user.login ?? user.id, restored_from: null, created_at: data.published_at });
 
     // Transform and return the created release
-    const newRelease = transformReleaseSlice(data as ReleaseSlice);
+    const newRelease = transformReleaseSlice(data);
     return NextResponse.json(newRelease, { status: 201 });
 
   } catch (error) {
     console.error('API Error:', error);
+    return errorResponse(error);
+  }
+}
 
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: 'Invalid request data', details: error.errors },
-        { status: 400 }
-      );
-    }
+// PATCH handler - unpublish or republish a release
+export async function PATCH(request: NextRequest) {
+  try {
+    const store = getReleaseStore();
+    const user = await requireUser(request);
 
-    if (error instanceof Error) {
-      if (error.message.includes('Missing required environment variables')) {
-        return NextResponse.json(
-          { error: 'Server configuration error' },
-          { status: 500 }
-        );
-      }
+    // Parse and validate request body
+    const body = await parseJsonBody(request);
+    const { id, published } = setPublishedSchema.parse(body);
 
-      if (error.message.includes('Database')) {
-        return NextResponse.json(
-          { error: 'Database operation failed. Please try again or contact support if the problem persists.' },
-          { status: 500 }
+    const release = await store.getRelease(id);
+    if (!release) {
+      throw new NotFoundError('Changelog not found');
+    }
+    await assertCanManageRelease(request, user, release);
+
+    // Unpublished releases stop counting for overlap, so the range may have been published again since
+    if (published && release.unpublished_at) {
+      const overlaps = await store.findOverlappingReleases({
+        repo: release.repo,
+        branch: release.branch,
+        pathScope: release.path_scope ?? '',
+        shas: release.commits_list,
+      });
+      if (overlaps.length > 0) {
+        throw new OverlapConflictError(
+          'This changelog cannot be republished because some of its commits are now included in another changelog.',
+          { releases: overlaps, overlapping_shas: [...new Set(overlaps.flatMap(overlap => overlap.shas))] }
         );
       }
     }
 
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    const data = await store.updateRelease(id, { unpublished_at: published ? null : new Date().toISOString() });
+    if (!data) {
+      throw new NotFoundError('Changelog not found');
+    }
+
+    return NextResponse.json(transformReleaseSlice(data));
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return errorResponse(error);
+  }
+}
+
+// DELETE handler - soft-delete a release, keeping the row for history
+export async function DELETE(request: NextRequest) {
+  try {
+    const store = getReleaseStore();
+    const user = await requireUser(request);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      throw new ValidationError('ID parameter is required');
+    }
+
+    const release = await store.getRelease(id);
+    if (!release) {
+      throw new NotFoundError('Changelog not found');
+    }
+    await assertCanManageRelease(request, user, release);
+
+    const data = await store.updateRelease(id, { deleted_at: new Date().toISOString() });
+    if (!data) {
+      throw new NotFoundError('Changelog not found');
+    }
+
+    return NextResponse.json({ id: data.id, deletedAt: data.deleted_at });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return errorResponse(error);
   }
-} 
\ No newline at end of file
+}
@@ -1,41 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-// Environment validation
-function validateEnvironment() {
-  const required = {
-    NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
-    SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
-  };
-
-  const missing = Object.entries(required)
-    .filter(([_, value]) => !value)
-    .map(([key]) => key);
-
-  if (missing.length > 0) {
-    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
-  }
-
-  return required as Record<string, string>;
-}
-
-// Database types
-interface ReleaseSlice {
-  id: string;
-  published_at: string;
-  repo: string;
-  branch: string;
-  mode: 'date' | 'sha' | 'tag';
-  start_date?: string;
-  end_date?: string;
-  base_sha?: string;
-  head_sha?: string;
-  base_tag?: string;
-  head_tag?: string;
-  markdown: string;
-  commits_list: string[];
-  owner_id?: string;
-}
+import { filterVisibleReleases } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { getReleaseStore, ReleaseSlice } from '@/lib/storage';
 
 interface RepoSummary {
   repo: string;
@@ -54,24 +20,10 @@ interface RepoSummary {
 // GET handler - fetch all repositories with changelogs
 export async function GET(request: NextRequest) {
   try {
-    const env = validateEnvironment();
-    const supabase = createClient(env.NEXT_PUBLIC_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
-
-    // Fetch all release slices from database
-    const { data, error } = await supabase
-      .from('release_slices')
-      .select('*')
-      .order('published_at', { ascending: false });
-
-    if (error) {
-      console.error('Database error:', error);
-      return NextResponse.json(
-        { error: 'Unable to load repositories. Please refresh the page or try again later.' },
-        { status: 500 }
-      );
-    }
+    // Fetch all release slices, newest first, leaving out private repositories the caller cannot see
+    const data = await filterVisibleReleases(request, await getReleaseStore().listReleases());
 
-    if (!data || data.length === 0) {
+    if (data.length === 0) {
       return NextResponse.json([]);
     }
 
@@ -137,17 +89,6 @@ export async function GET(request: NextRequest) {
 
   } catch (error) {
     console.error('API Error:', error);
-
-    if (error instanceof Error && error.message.includes('Missing required environment variables')) {
-      return NextResponse.json(
-        { error: 'Server configuration error' },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
 } 
\ No newline at end of file
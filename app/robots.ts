@@ -0,0 +1,11 @@
+import type { MetadataRoute } from 'next';
+import { getSiteUrl } from '@/lib/site';
+
+export default async function robots(): Promise<MetadataRoute.Robots> {
+  const siteUrl = await getSiteUrl();
+  return {
+    // Link previews fetch the generated images under /api/og
+    rules: { userAgent: '*', allow: ['/', '/api/og'], disallow: ['/api/', '/console'] },
+    sitemap: `${siteUrl}/sitemap.xml`,
+  };
+}
@@ -0,0 +1,41 @@
+import type { MetadataRoute } from 'next';
+import { releasePath } from '@/lib/releases';
+import { getSiteUrl } from '@/lib/site';
+import { getReleaseStore } from '@/lib/storage';
+
+// The sitemap protocol's limit per file
+const MAX_SITEMAP_URLS = 50000;
+
+// Home page, every repository's changelog and every release page. Private repositories are left
+// out, as their pages only render for viewers with access.
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const siteUrl = await getSiteUrl();
+  // Newest first, so each repository's first release is its latest
+  const releases = (await getReleaseStore().listReleases()).filter(release => !release.private_repo);
+
+  const entries: MetadataRoute.Sitemap = [{ url: siteUrl, changeFrequency: 'daily', priority: 1 }];
+  const repos = new Set<string>();
+
+  for (const release of releases) {
+    if (!repos.has(release.repo)) {
+      repos.add(release.repo);
+      entries.push({
+        url: `${siteUrl}/${release.repo}`,
+        lastModified: release.published_at,
+        changeFrequency: 'weekly',
+        priority: 0.8,
+      });
+    }
+  }
+
+  for (const release of releases) {
+    entries.push({
+      url: `${siteUrl}${releasePath(release.repo, release.id)}`,
+      lastModified: release.published_at,
+      changeFrequency: 'monthly',
+      priority: 0.5,
+    });
+  }
+
+  return entries.slice(0, MAX_SITEMAP_URLS);
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useState } from "react"
+import { Auth } from "@supabase/auth-ui-react"
+import { ThemeSupa } from "@supabase/auth-ui-shared"
+import { KeyRound, LogIn, LogOut } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { useAuth } from "@/components/auth-provider"
+import { getSupabaseBrowserClient, hasConnectedGitHubToken, setConnectedGitHubToken, setLocalToken } from "@/lib/auth/client"
+
+// Sign-in form for the local provider: the token comes from LOCAL_AUTH_USERS
+function LocalSignIn({ onSignedIn }: { onSignedIn: () => void }) {
+  const { refresh } = useAuth()
+  const [token, setToken] = useState("")
+  const [githubToken, setGitHubToken] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    const response = await fetch("/api/auth", { headers: { Authorization: `Bearer ${token.trim()}` } })
+    const data = response.ok ? await response.json() : null
+    if (!data?.user) {
+      setError("Unknown access token")
+      return
+    }
+    setLocalToken(token.trim())
+    setConnectedGitHubToken(githubToken.trim() || null)
+    await refresh()
+    onSignedIn()
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Label htmlFor="access-token" className="font-mono text-sm">Access token</Label>
+      <Input
+        id="access-token"
+        type="password"
+        value={token}
+        onChange={(e) => setToken(e.target.value)}
+        className="font-mono"
+      />
+      <Label htmlFor="github-token" className="font-mono text-sm">GitHub token (for publishing and private repositories)</Label>
+      <Input
+        id="github-token"
+        type="password"
+        value={githubToken}
+        onChange={(e) => setGitHubToken(e.target.value)}
+        placeholder="ghp_..."
+        className="font-mono"
+      />
+      {error && <div className="text-sm text-red-700 dark:text-red-300">{error}</div>}
+      <Button type="submit" disabled={!token.trim()} className="w-full font-mono">
+        Sign in
+      </Button>
+    </form>
+  )
+}
+
+// Lets a signed-in user connect their own GitHub token, used for GitHub calls instead of the
+// server's token so private repositories become reachable
+function ConnectGitHubToken() {
+  const { refresh } = useAuth()
+  const [open, setOpen] = useState(false)
+  const [token, setToken] = useState("")
+  const [connected, setConnected] = useState(() => hasConnectedGitHubToken())
+
+  const handleSave = async (value: string | null) => {
+    setConnectedGitHubToken(value)
+    setConnected(value !== null)
+    setToken("")
+    setOpen(false)
+    // Reload data that depends on which repositories the token can see
+    await refresh()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-9 h-9 p-0"
+          title={connected ? "GitHub token connected" : "Connect a GitHub token"}
+        >
+          <KeyRound className={`h-4 w-4 ${connected ? "text-green-600 dark:text-green-400" : ""}`} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-mono">GitHub token</DialogTitle>
+          <DialogDescription>
+            Connect a personal access token to draft and view changelogs of private repositories you can access. A fine-grained token with read access to contents, metadata and pull requests is enough. The token stays in this browser and is only sent to this site.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleSave(token.trim())
+          }}
+          className="space-y-3"
+        >
+          <Input
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            placeholder="github_pat_..."
+            className="font-mono"
+          />
+          <div className="flex gap-2">
+            <Button type="submit" disabled={!token.trim()} className="flex-1 font-mono">
+              {connected ? "Replace token" : "Connect"}
+            </Button>
+            {connected && (
+              <Button type="button" variant="outline" onClick={() => handleSave(null)} className="font-mono">
+                Disconnect
+              </Button>
+            )}
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Nav bar sign-in/sign-out control
+export function AuthButton() {
+  const { provider, user, loading, signOut } = useAuth()
+  const [open, setOpen] = useState(false)
+
+  if (loading) {
+    return <div className="w-20 h-9" />
+  }
+
+  if (user) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-mono text-muted-foreground">{user.login ?? "Signed in"}</span>
+        <ConnectGitHubToken />
+        <Button variant="ghost" size="sm" onClick={signOut} className="w-9 h-9 p-0" title="Sign out">
+          <LogOut className="h-4 w-4" />
+        </Button>
+      </div>
+    )
+  }
+
+  const supabase = getSupabaseBrowserClient()
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="font-mono">
+          <LogIn className="h-4 w-4 mr-2" />
+          Sign in
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-mono">Sign in</DialogTitle>
+          <DialogDescription>
+            Publishing and managing changelogs requires signing in. Releases can be changed by their publisher and by collaborators on the repository.
+          </DialogDescription>
+        </DialogHeader>
+        {provider === "local" ? (
+          <LocalSignIn onSignedIn={() => setOpen(false)} />
+        ) : supabase ? (
+          <Auth
+            supabaseClient={supabase}
+            appearance={{ theme: ThemeSupa }}
+            providers={["github"]}
+            onlyThirdPartyProviders
+            redirectTo={typeof window !== "undefined" ? window.location.href : undefined}
+          />
+        ) : (
+          <div className="text-sm text-red-700 dark:text-red-300 font-mono">
+            Sign-in is not configured. Set NEXT_PUBLIC_SUPABASE_ANON_KEY.
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
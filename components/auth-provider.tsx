@@ -0,0 +1,71 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react"
+import { authFetch, getSupabaseBrowserClient, setConnectedGitHubToken, setLocalToken } from "@/lib/auth/client"
+import type { AuthProviderName, AuthUser } from "@/lib/auth/types"
+
+type AuthState = {
+  provider: AuthProviderName | null
+  user: AuthUser | null
+  loading: boolean
+  // Re-resolve the current user, e.g. after signing in with a local token
+  refresh: () => Promise<void>
+  signOut: () => Promise<void>
+}
+
+const AuthContext = createContext<AuthState>({
+  provider: null,
+  user: null,
+  loading: true,
+  refresh: async () => {},
+  signOut: async () => {},
+})
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [provider, setProvider] = useState<AuthProviderName | null>(null)
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await authFetch("/api/auth")
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+      const data = await response.json()
+      setProvider(data.provider)
+      setUser(data.user)
+    } catch (error) {
+      console.error("Failed to load session:", error)
+      setUser(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const signOut = useCallback(async () => {
+    setLocalToken(null)
+    setConnectedGitHubToken(null)
+    await getSupabaseBrowserClient()?.auth.signOut()
+    setUser(null)
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    // Supabase finishes the GitHub OAuth redirect asynchronously
+    const subscription = getSupabaseBrowserClient()?.auth.onAuthStateChange(() => {
+      refresh()
+    }).data.subscription
+    return () => subscription?.unsubscribe()
+  }, [refresh])
+
+  return (
+    <AuthContext.Provider value={{ provider, user, loading, refresh, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  )
+}
+
+export function useAuth(): AuthState {
+  return useContext(AuthContext)
+}
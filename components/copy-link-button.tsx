@@ -0,0 +1,33 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Link2 } from "lucide-react"
+
+// Copies the absolute URL of a path on this site, with a brief confirmation
+export function CopyLinkButton({ path, title = "Copy link to this release" }: { path: string; title?: string }) {
+  const [isCopied, setIsCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${path}`)
+      setIsCopied(true)
+      setTimeout(() => setIsCopied(false), 2000)
+    } catch (error) {
+      console.error("Failed to copy:", error)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleCopy}
+      className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+      title={title}
+    >
+      {isCopied ? (
+        <Check className="h-4 w-4 text-green-600 dark:text-green-400" />
+      ) : (
+        <Link2 className="h-4 w-4" />
+      )}
+    </button>
+  )
+}
@@ -0,0 +1,85 @@
+// Browser side of sign-in: holds the session token and attaches it to API requests.
+// Kept apart from index.ts, which is server-only.
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { GITHUB_TOKEN_HEADER } from './types';
+
+// Token for the local provider, entered by the user and kept in localStorage
+const LOCAL_TOKEN_KEY = 'relix-auth-token';
+// GitHub token the user connected, e.g. a fine-grained token for private repositories
+const CONNECTED_GITHUB_TOKEN_KEY = 'relix-github-token';
+
+let supabaseClient: SupabaseClient | null | undefined;
+
+// Browser Supabase client for GitHub OAuth, or null when the anon key is not configured
+export function getSupabaseBrowserClient(): SupabaseClient | null {
+  if (supabaseClient === undefined) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    supabaseClient = url && anonKey ? createClient(url, anonKey) : null;
+  }
+  return supabaseClient;
+}
+
+export function setLocalToken(token: string | null): void {
+  if (token) {
+    localStorage.setItem(LOCAL_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(LOCAL_TOKEN_KEY);
+  }
+}
+
+export function setConnectedGitHubToken(token: string | null): void {
+  if (token) {
+    localStorage.setItem(CONNECTED_GITHUB_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(CONNECTED_GITHUB_TOKEN_KEY);
+  }
+}
+
+export function hasConnectedGitHubToken(): boolean {
+  return localStorage.getItem(CONNECTED_GITHUB_TOKEN_KEY) !== null;
+}
+
+export async function getAccessToken(): Promise<string | null> {
+  const localToken = localStorage.getItem(LOCAL_TOKEN_KEY);
+  if (localToken) {
+    return localToken;
+  }
+  const supabase = getSupabaseBrowserClient();
+  if (!supabase) {
+    return null;
+  }
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
+// The user's own GitHub token: a connected token if there is one, otherwise the OAuth provider
+// token Supabase returns after signing in with GitHub. Supabase drops the provider token when it
+// refreshes the session, so users may need to sign in again or connect a token.
+export async function getGitHubToken(): Promise<string | null> {
+  const connectedToken = localStorage.getItem(CONNECTED_GITHUB_TOKEN_KEY);
+  if (connectedToken) {
+    return connectedToken;
+  }
+  const supabase = getSupabaseBrowserClient();
+  if (!supabase) {
+    return null;
+  }
+  const { data } = await supabase.auth.getSession();
+  return data.session?.provider_token ?? null;
+}
+
+// fetch() with the signed-in user's bearer token and their GitHub token, which the server uses
+// for GitHub calls and to show releases of private repositories the user can see
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const [token, githubToken] = await Promise.all([getAccessToken(), getGitHubToken()]);
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  if (githubToken) {
+    headers.set(GITHUB_TOKEN_HEADER, githubToken);
+  }
+  return fetch(input, { ...init, headers });
+}
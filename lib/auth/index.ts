@@ -0,0 +1,133 @@
+import { ConfigurationError, ForbiddenError, UnauthorizedError } from '@/lib/errors';
+import { getRepoAccess, getTokenLogin, GitHubRepoAccess, isRepoCollaborator } from '@/lib/github';
+import { ReleaseSlice } from '@/lib/storage';
+import { createLocalAuthProvider } from './local';
+import { createSupabaseAuthProvider } from './supabase';
+import { AUTH_PROVIDERS, AuthProvider, AuthProviderName, AuthUser, GITHUB_TOKEN_HEADER } from './types';
+
+export * from './types';
+
+function requireEnv(names: string[]): Record<string, string> {
+  const missing = names.filter(name => !process.env[name]);
+  if (missing.length > 0) {
+    throw new ConfigurationError(`Missing required environment variables: ${missing.join(', ')}`);
+  }
+  return Object.fromEntries(names.map(name => [name, process.env[name] as string]));
+}
+
+// Provider configured for this deployment via AUTH_PROVIDER (defaults to Supabase)
+export function getAuthProviderName(): AuthProviderName {
+  const configured = process.env.AUTH_PROVIDER;
+  if (configured && (AUTH_PROVIDERS as readonly string[]).includes(configured)) {
+    return configured as AuthProviderName;
+  }
+  if (configured) {
+    throw new ConfigurationError(`Invalid AUTH_PROVIDER '${configured}'. Expected one of: ${AUTH_PROVIDERS.join(', ')}`);
+  }
+  return 'supabase';
+}
+
+export function getAuthProvider(): AuthProvider {
+  switch (getAuthProviderName()) {
+    case 'supabase': {
+      const env = requireEnv(['NEXT_PUBLIC_SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY']);
+      return createSupabaseAuthProvider({
+        url: env.NEXT_PUBLIC_SUPABASE_URL,
+        serviceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY,
+      });
+    }
+    case 'local': {
+      const env = requireEnv(['LOCAL_AUTH_USERS']);
+      return createLocalAuthProvider({ users: env.LOCAL_AUTH_USERS });
+    }
+  }
+}
+
+// User behind the request's `Authorization: Bearer <token>` header, or null when signed out
+export async function getRequestUser(request: Request): Promise<AuthUser | null> {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return null;
+  }
+  return getAuthProvider().getUser(match[1].trim());
+}
+
+export async function requireUser(request: Request): Promise<AuthUser> {
+  const user = await getRequestUser(request);
+  if (!user) {
+    throw new UnauthorizedError();
+  }
+  return user;
+}
+
+// The caller's own GitHub token from the X-GitHub-Token header, if they connected one
+export function getRequestGitHubToken(request: Request): string | undefined {
+  return request.headers.get(GITHUB_TOKEN_HEADER)?.trim() || undefined;
+}
+
+// Releases of private repositories are only visible to callers whose GitHub token can see the repository
+export async function filterVisibleReleases(request: Request, releases: ReleaseSlice[]): Promise<ReleaseSlice[]> {
+  const privateRepos = [...new Set(releases.filter(release => release.private_repo).map(release => release.repo))];
+  if (privateRepos.length === 0) {
+    return releases;
+  }
+
+  const token = getRequestGitHubToken(request);
+  const visible = new Set<string>();
+  if (token) {
+    await Promise.all(privateRepos.map(async repo => {
+      if (await getRepoAccess(repo, token)) {
+        visible.add(repo);
+      }
+    }));
+  }
+  return releases.filter(release => !release.private_repo || visible.has(release.repo));
+}
+
+// Whether the user can push to the repository. Their own GitHub token is asked first, which also
+// covers private repositories; otherwise GITHUB_PAT looks up the login among the collaborators.
+export async function isRepoMaintainer(request: Request, user: AuthUser, repo: string): Promise<boolean> {
+  const token = getRequestGitHubToken(request);
+  if (token) {
+    const access = await getRepoAccess(repo, token);
+    if (access && (access.push || access.maintain || access.admin)) {
+      return true;
+    }
+  }
+  return user.login ? isRepoCollaborator(repo, user.login) : false;
+}
+
+// Releases can be changed by whoever published them and by collaborators on the repository.
+// Releases published before sign-in existed have no owner, so only collaborators qualify.
+export async function assertCanManageRelease(request: Request, user: AuthUser, release: ReleaseSlice): Promise<void> {
+  if (release.owner_id && release.owner_id === user.id) {
+    return;
+  }
+  if (await isRepoMaintainer(request, user, release.repo)) {
+    return;
+  }
+  throw new ForbiddenError(`Only the publisher or collaborators on ${release.repo} can change this changelog`);
+}
+
+// Publishing requires the user to prove push, maintain or admin permission on the repository
+// with their own GitHub token. The token must belong to the signed-in GitHub account.
+export async function assertRepoWriteAccess(request: Request, user: AuthUser, repo: string): Promise<GitHubRepoAccess> {
+  const token = getRequestGitHubToken(request);
+  if (!token) {
+    throw new ForbiddenError(`Sign in with GitHub again so we can verify that you have write access to ${repo}`);
+  }
+
+  const login = await getTokenLogin(token);
+  if (!login) {
+    throw new ForbiddenError('Your GitHub session has expired. Sign in with GitHub again to publish.');
+  }
+  if (user.login && login.toLowerCase() !== user.login.toLowerCase()) {
+    throw new ForbiddenError('The GitHub token does not belong to the signed-in account');
+  }
+
+  const access = await getRepoAccess(repo, token);
+  if (!access || !(access.push || access.maintain || access.admin)) {
+    throw new ForbiddenError(`Only maintainers with write access to ${repo} can publish its changelog`);
+  }
+  return access;
+}
@@ -0,0 +1,32 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { ConfigurationError } from '@/lib/errors';
+import { AuthProvider, AuthUser } from './types';
+
+// owner_id is a UUID column, so local users get a stable name-based UUID
+function userIdFor(login: string): string {
+  const hex = createHash('sha1').update(`relix-local:${login}`).digest('hex');
+  return [hex.slice(0, 8), hex.slice(8, 12), `5${hex.slice(13, 16)}`, `8${hex.slice(17, 20)}`, hex.slice(20, 32)].join('-');
+}
+
+// Static sign-in for self-hosting without Supabase. LOCAL_AUTH_USERS lists `login:token`
+// pairs; the login should be the user's GitHub username so collaborator checks work.
+export function createLocalAuthProvider(env: { users: string }): AuthProvider {
+  const users = env.users.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0 || separator === entry.length - 1) {
+      // The entry is left out of the message so a malformed token does not end up in logs
+      throw new ConfigurationError('Invalid LOCAL_AUTH_USERS entry. Expected comma-separated login:token pairs');
+    }
+    return { login: entry.slice(0, separator), token: Buffer.from(entry.slice(separator + 1)) };
+  });
+
+  return {
+    name: 'local',
+    async getUser(token: string): Promise<AuthUser | null> {
+      const candidate = Buffer.from(token);
+      // Constant-time comparison so response timing does not leak tokens
+      const user = users.find(entry => entry.token.length === candidate.length && timingSafeEqual(entry.token, candidate));
+      return user ? { id: userIdFor(user.login), login: user.login } : null;
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import { createClient } from '@supabase/supabase-js';
+import { AuthProvider, AuthUser } from './types';
+
+// Supabase Auth with the GitHub OAuth provider. The browser signs in with the anon key and
+// sends its access token; the server verifies it against Supabase.
+export function createSupabaseAuthProvider(env: { url: string; serviceRoleKey: string }): AuthProvider {
+  const supabase = createClient(env.url, env.serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  return {
+    name: 'supabase',
+    async getUser(token: string): Promise<AuthUser | null> {
+      const { data, error } = await supabase.auth.getUser(token);
+      if (error || !data.user) {
+        return null;
+      }
+      // The login decides collaborator checks, so it comes from the GitHub identity Supabase
+      // recorded at sign-in. user_metadata is not used: users can rewrite it with updateUser().
+      const github = data.user.identities?.find(identity => identity.provider === 'github');
+      const login = github?.identity_data?.user_name;
+      return { id: data.user.id, login: typeof login === 'string' ? login : null };
+    },
+  };
+}
@@ -0,0 +1,20 @@
+// A signed-in user as seen by the API
+export interface AuthUser {
+  id: string; // Stored as owner_id on releases the user publishes
+  login: string | null; // GitHub username, used for collaborator checks and revision authors
+}
+
+export const AUTH_PROVIDERS = ['supabase', 'local'] as const;
+
+export type AuthProviderName = typeof AUTH_PROVIDERS[number];
+
+// Resolves the bearer token sent by the browser to a user
+export interface AuthProvider {
+  name: AuthProviderName;
+  // Resolves to null for unknown, expired or malformed tokens
+  getUser(token: string): Promise<AuthUser | null>;
+}
+
+// Header carrying the user's own GitHub OAuth token, sent when publishing so the server
+// can check the user's permission on the repository
+export const GITHUB_TOKEN_HEADER = 'X-GitHub-Token';
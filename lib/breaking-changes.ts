@@ -0,0 +1,155 @@
+// Breaking-change detection from commit metadata, pull request labels and removed or renamed files
+
+import { ClassifiedCommit } from '@/lib/conventional-commits';
+import { matchesAnyGlob } from '@/lib/glob';
+
+export interface BreakingChange {
+  // What the detection is based on
+  source: 'commit' | 'label' | 'file';
+  description: string;
+  // Migration guidance from a BREAKING CHANGE footer or the pull request description
+  migration: string | null;
+  shas: string[];
+  pullRequest: { number: number; url: string } | null;
+}
+
+// A file removed or renamed anywhere in the compared range
+export interface ChangedFile {
+  filename: string;
+  status: string;
+  previousFilename?: string;
+}
+
+export interface BreakingChangeInput {
+  classification: ClassifiedCommit;
+  pullRequest?: { number: number; title: string; body: string; labels: string[]; url: string };
+}
+
+// Pull request labels that mark a breaking change, compared case-insensitively
+export const BREAKING_LABELS = ['breaking', 'breaking change', 'breaking-change', 'breaking changes', 'semver-major', 'semver: major', 'major'];
+
+// Source files whose removal or rename likely breaks importers
+const EXPORTED_FILE_GLOBS = ['**/*.{ts,tsx,js,jsx,mjs,cjs,d.ts,py,go,rs,rb,java,kt,swift,cs,php}'];
+
+// Files that are never part of a public surface
+const NON_EXPORTED_FILE_GLOBS = [
+  '**/*.{test,spec}.*',
+  '**/__tests__/**',
+  '**/__mocks__/**',
+  '{test,tests,e2e,spec,fixtures,examples,example,scripts,docs,.github}/**',
+  '**/{test,tests,e2e,fixtures,examples,internal}/**',
+];
+
+// Longest migration note kept from a pull request description
+const MIGRATION_MAX_LENGTH = 800;
+
+const MIGRATION_HEADING = /^#{1,6}\s*(migration|migrating|upgrade|upgrading|breaking)/i;
+
+// Extract a "## Migration" (or "## Breaking changes", "## Upgrading") section from a PR body
+export function extractMigrationNotes(body: string): string | null {
+  const lines = body.replace(/<!--[\s\S]*?-->/g, '').split(/\r?\n/);
+  const start = lines.findIndex(line => MIGRATION_HEADING.test(line.trim()));
+  if (start === -1) {
+    return null;
+  }
+
+  const section: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (/^#{1,6}\s/.test(line.trim())) {
+      break;
+    }
+    section.push(line);
+  }
+
+  const text = section.join('\n').trim();
+  if (!text) {
+    return null;
+  }
+  return text.length > MIGRATION_MAX_LENGTH ? text.substring(0, MIGRATION_MAX_LENGTH) + '...' : text;
+}
+
+function isExportedFile(filename: string): boolean {
+  return matchesAnyGlob(filename, EXPORTED_FILE_GLOBS) && !matchesAnyGlob(filename, NON_EXPORTED_FILE_GLOBS);
+}
+
+export function detectBreakingChanges(commits: BreakingChangeInput[], files: ChangedFile[] = []): BreakingChange[] {
+  const changes: BreakingChange[] = [];
+  const byPullRequest = new Map<number, BreakingChange>();
+
+  for (const { classification, pullRequest } of commits) {
+    const labelled = pullRequest?.labels.some(label => BREAKING_LABELS.includes(label.toLowerCase())) ?? false;
+    if (!classification.breaking && !labelled) {
+      continue;
+    }
+
+    const footerNotes = classification.breakingNotes.join('\n\n') || null;
+
+    // Several commits of one pull request describe a single breaking change
+    const existing = pullRequest ? byPullRequest.get(pullRequest.number) : undefined;
+    if (existing) {
+      existing.shas.push(classification.sha);
+      existing.migration = [existing.migration, footerNotes].filter(Boolean).join('\n\n') || null;
+      continue;
+    }
+
+    const change: BreakingChange = {
+      source: classification.breaking ? 'commit' : 'label',
+      description: pullRequest?.title ?? classification.description,
+      migration: footerNotes ?? (pullRequest ? extractMigrationNotes(pullRequest.body) : null),
+      shas: [classification.sha],
+      pullRequest: pullRequest ? { number: pullRequest.number, url: pullRequest.url } : null,
+    };
+    changes.push(change);
+    if (pullRequest) {
+      byPullRequest.set(pullRequest.number, change);
+    }
+  }
+
+  for (const file of files) {
+    if (file.status === 'removed' && isExportedFile(file.filename)) {
+      changes.push({
+        source: 'file',
+        description: `Removed \`${file.filename}\``,
+        migration: 'Imports of this module must be removed or replaced.',
+        shas: [],
+        pullRequest: null,
+      });
+    } else if (file.status === 'renamed' && file.previousFilename && isExportedFile(file.previousFilename)) {
+      changes.push({
+        source: 'file',
+        description: `Renamed \`${file.previousFilename}\` to \`${file.filename}\``,
+        migration: `Update imports of \`${file.previousFilename}\` to \`${file.filename}\`.`,
+        shas: [],
+        pullRequest: null,
+      });
+    }
+  }
+
+  return changes;
+}
+
+function formatReferences(change: BreakingChange): string {
+  const references = [
+    change.pullRequest && `[#${change.pullRequest.number}](${change.pullRequest.url})`,
+    ...change.shas.map(sha => sha.substring(0, 7)),
+  ].filter(Boolean);
+  return references.length > 0 ? ` (${references.join(', ')})` : '';
+}
+
+// One bullet per change, with migration notes indented underneath
+export function formatBreakingChanges(changes: BreakingChange[]): string {
+  return changes.map(change => {
+    const description = change.description.charAt(0).toUpperCase() + change.description.slice(1);
+    const line = `- ${description}${formatReferences(change)}`;
+    if (!change.migration) {
+      return line;
+    }
+    const migration = change.migration.split('\n').map(text => `  ${text}`.trimEnd()).join('\n');
+    return `${line}\n  **Migration:**\n${migration}`;
+  }).join('\n');
+}
+
+// Published releases are flagged from their markdown, so edits that add or remove the section are reflected
+export function hasBreakingChangesSection(markdown: string): boolean {
+  return /^#{1,3}\s+(?:⚠️\s*)?Breaking Changes\b/im.test(markdown);
+}
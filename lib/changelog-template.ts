@@ -0,0 +1,135 @@
+// Deterministic changelog renderer that needs no LLM. Used as a generation mode of its own
+// and as the fallback when the configured provider is unavailable.
+
+import { CHANGELOG_CATEGORIES, ChangelogCategory, ClassifiedCommit } from '@/lib/conventional-commits';
+import { matchesAnyGlob } from '@/lib/glob';
+import { BreakingChange, formatBreakingChanges } from '@/lib/breaking-changes';
+
+// Assigns a category to commits that match any of its labels, paths, title prefixes or message pattern
+export interface TemplateRule {
+  category: ChangelogCategory;
+  // Pull request labels, compared case-insensitively
+  labels?: string[];
+  // Globs matched against the files a commit touches
+  paths?: string[];
+  // Plain prefixes of the commit title, compared case-insensitively
+  titlePrefixes?: string[];
+  // Regular expression tested against the commit title. Only for the built-in rules: patterns
+  // from requests could backtrack catastrophically on the server.
+  pattern?: string;
+}
+
+export interface TemplateCommit {
+  sha: string;
+  title: string;
+  date: string;
+  classification: ClassifiedCommit;
+  pullRequest?: { number: number; title: string; labels: string[]; url: string };
+  // Only present when the files of each commit were fetched
+  files?: string[];
+}
+
+// Applied after Conventional Commits types; the first matching rule wins
+export const DEFAULT_TEMPLATE_RULES: TemplateRule[] = [
+  { category: 'Bug Fixes', labels: ['bug', 'fix', 'bugfix', 'regression'], pattern: '^(fix|fixes|fixed|resolve|resolves|resolved|correct|revert)\\b' },
+  { category: 'New Features', labels: ['feature', 'feat', 'new feature'], pattern: '^(add|adds|added|introduce|introduces|implement|implements|support)\\b' },
+  { category: 'Improvements', labels: ['enhancement', 'improvement', 'performance', 'perf'], pattern: '^(improve|improves|improved|update|updates|optimi[sz]e|speed up|allow)\\b' },
+  { category: 'Internal Changes', labels: ['dependencies', 'chore', 'ci', 'build', 'refactor', 'internal', 'documentation', 'docs', 'test', 'tests'], paths: ['.github/**', '**/*.test.*', '**/*.spec.*', 'docs/**'], pattern: '^(chore|refactor|bump|merge|ci|build|test|docs?)\\b' },
+];
+
+// Category for commits no rule matches
+const DEFAULT_CATEGORY: ChangelogCategory = 'Improvements';
+
+function matchesRule(commit: TemplateCommit, rule: TemplateRule): boolean {
+  const labels = commit.pullRequest?.labels.map(label => label.toLowerCase()) ?? [];
+  if (rule.labels?.some(label => labels.includes(label.toLowerCase()))) {
+    return true;
+  }
+
+  // A path rule only matches when every touched file falls under it
+  if (rule.paths && commit.files && commit.files.length > 0 && commit.files.every(file => matchesAnyGlob(file, rule.paths!))) {
+    return true;
+  }
+
+  const title = commit.title.toLowerCase();
+  if (rule.titlePrefixes?.some(prefix => prefix && title.startsWith(prefix.toLowerCase()))) {
+    return true;
+  }
+
+  return rule.pattern ? new RegExp(rule.pattern, 'i').test(commit.title) : false;
+}
+
+export function categorizeTemplateCommit(commit: TemplateCommit, rules: TemplateRule[] = DEFAULT_TEMPLATE_RULES): ChangelogCategory {
+  if (commit.classification.category) {
+    return commit.classification.category;
+  }
+  return rules.find(rule => matchesRule(commit, rule))?.category ?? DEFAULT_CATEGORY;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function formatEntry(commits: TemplateCommit[]): string {
+  const [first] = commits;
+  const { scope, description, isConventional } = first.classification;
+
+  // Squash-merged PR titles describe the change best; fall back to the commit description
+  const text = first.pullRequest?.title ?? (isConventional ? description : first.title);
+  const prefix = scope ? `**${scope}:** ` : '';
+  const breaking = commits.some(commit => commit.classification.breaking) ? ' **(breaking)**' : '';
+
+  const references = [
+    first.pullRequest && `[#${first.pullRequest.number}](${first.pullRequest.url})`,
+    ...commits.map(commit => commit.sha.substring(0, 7)),
+  ].filter(Boolean).join(', ');
+
+  return `- ${prefix}${capitalize(text.replace(/\s*\(#\d+\)\s*$/, '').trim())}${breaking} (${references})`;
+}
+
+export interface TemplateOptions {
+  rules?: TemplateRule[];
+  breakingChanges?: BreakingChange[];
+  // Version for the release header, e.g. "v1.3.0"
+  version?: string;
+}
+
+export function renderTemplateChangelog(
+  commits: TemplateCommit[],
+  { rules = DEFAULT_TEMPLATE_RULES, breakingChanges = [], version }: TemplateOptions = {}
+): string {
+  const latestDate = commits
+    .map(commit => commit.date)
+    .sort()
+    .pop();
+  const date = latestDate ? latestDate.split('T')[0] : new Date().toISOString().split('T')[0];
+  const header = version ? `# Release ${version} – ${date}` : `# Release – ${date}`;
+
+  // Commits from the same pull request become a single entry
+  const entries = new Map<string, TemplateCommit[]>();
+  for (const commit of commits) {
+    const key = commit.pullRequest ? `pr-${commit.pullRequest.number}` : commit.sha;
+    if (!entries.has(key)) {
+      entries.set(key, []);
+    }
+    entries.get(key)!.push(commit);
+  }
+
+  const sections = new Map<ChangelogCategory, string[]>();
+  for (const group of entries.values()) {
+    const category = categorizeTemplateCommit(group[0], rules);
+    if (!sections.has(category)) {
+      sections.set(category, []);
+    }
+    sections.get(category)!.push(formatEntry(group));
+  }
+
+  const body = CHANGELOG_CATEGORIES
+    .filter(category => sections.has(category))
+    .map(category => `## ${category}\n\n${sections.get(category)!.join('\n')}`);
+
+  // Breaking changes lead the release, ahead of the regular categories
+  const breaking = breakingChanges.length > 0 ? [`## Breaking Changes\n\n${formatBreakingChanges(breakingChanges)}`] : [];
+
+  return [header, ...breaking, ...body].join('\n\n') + '\n';
+}
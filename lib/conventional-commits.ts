@@ -0,0 +1,125 @@
+// Conventional Commits parsing (https://www.conventionalcommits.org/en/v1.0.0/)
+// and deterministic mapping of commit types onto changelog categories.
+
+export const CHANGELOG_CATEGORIES = ['New Features', 'Improvements', 'Bug Fixes', 'Internal Changes'] as const;
+
+export type ChangelogCategory = typeof CHANGELOG_CATEGORIES[number];
+
+export interface CommitFooter {
+  token: string;
+  value: string;
+}
+
+export interface ConventionalCommit {
+  // False when the header does not follow the spec; type and scope are then null
+  isConventional: boolean;
+  type: string | null;
+  scope: string | null;
+  // Set by a "!" before the colon or a BREAKING CHANGE footer
+  breaking: boolean;
+  description: string;
+  body: string;
+  footers: CommitFooter[];
+  // Text of every BREAKING CHANGE / BREAKING-CHANGE footer
+  breakingNotes: string[];
+}
+
+const HEADER_PATTERN = /^(\w+)(?:\(([^()\r\n]*)\))?(!)?: (.+)$/;
+const FOOTER_PATTERN = /^(BREAKING CHANGE|BREAKING-CHANGE|[\w-]+)(?:: | #)(.*)$/;
+
+// Commit types and the category they always land in
+const TYPE_CATEGORIES: Record<string, ChangelogCategory> = {
+  feat: 'New Features',
+  feature: 'New Features',
+  fix: 'Bug Fixes',
+  bugfix: 'Bug Fixes',
+  revert: 'Bug Fixes',
+  perf: 'Improvements',
+  improvement: 'Improvements',
+  refactor: 'Internal Changes',
+  build: 'Internal Changes',
+  chore: 'Internal Changes',
+  ci: 'Internal Changes',
+  docs: 'Internal Changes',
+  style: 'Internal Changes',
+  test: 'Internal Changes',
+  deps: 'Internal Changes',
+};
+
+function isBreakingToken(token: string): boolean {
+  return token === 'BREAKING CHANGE' || token === 'BREAKING-CHANGE';
+}
+
+// Split the text after the header into body and trailing footer block
+function splitBodyAndFooters(paragraphs: string[]): { body: string; footers: CommitFooter[] } {
+  const last = paragraphs[paragraphs.length - 1];
+  if (!last || !FOOTER_PATTERN.test(last.split('\n')[0])) {
+    return { body: paragraphs.join('\n\n'), footers: [] };
+  }
+
+  const footers: CommitFooter[] = [];
+  for (const line of last.split('\n')) {
+    const match = line.match(FOOTER_PATTERN);
+    if (match) {
+      footers.push({ token: match[1], value: match[2].trim() });
+    } else if (footers.length > 0) {
+      // Continuation line of a multi-line footer value
+      const previous = footers[footers.length - 1];
+      previous.value = `${previous.value}\n${line}`.trim();
+    }
+  }
+
+  return { body: paragraphs.slice(0, -1).join('\n\n'), footers };
+}
+
+export function parseConventionalCommit(message: string): ConventionalCommit {
+  const normalized = message.replace(/\r\n/g, '\n').trim();
+  const [header, ...rest] = normalized.split('\n');
+  const paragraphs = rest.join('\n').split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+  const { body, footers } = splitBodyAndFooters(paragraphs);
+  const breakingNotes = footers.filter(f => isBreakingToken(f.token)).map(f => f.value);
+
+  const match = header.match(HEADER_PATTERN);
+  if (!match) {
+    return {
+      isConventional: false,
+      type: null,
+      scope: null,
+      breaking: breakingNotes.length > 0,
+      description: header.trim(),
+      body,
+      footers,
+      breakingNotes,
+    };
+  }
+
+  return {
+    isConventional: true,
+    type: match[1].toLowerCase(),
+    scope: match[2]?.trim() || null,
+    breaking: Boolean(match[3]) || breakingNotes.length > 0,
+    description: match[4].trim(),
+    body,
+    footers,
+    breakingNotes,
+  };
+}
+
+// Category a parsed commit must be listed under, or null when the model should decide
+export function categorizeCommit(commit: ConventionalCommit): ChangelogCategory | null {
+  if (!commit.type) {
+    return null;
+  }
+  return TYPE_CATEGORIES[commit.type] ?? null;
+}
+
+export interface ClassifiedCommit extends ConventionalCommit {
+  sha: string;
+  category: ChangelogCategory | null;
+}
+
+export function classifyCommit(sha: string, message: string): ClassifiedCommit {
+  const parsed = parseConventionalCommit(message);
+  return { sha, ...parsed, category: categorizeCommit(parsed) };
+}
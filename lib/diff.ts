@@ -0,0 +1,58 @@
+// Line-based diff for comparing release revisions
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+// Longest-common-subsequence table over lines. Release notes are short, so the
+// quadratic table is cheap; the shared prefix and suffix are trimmed first anyway.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldLines = a.slice(prefix, a.length - suffix);
+  const newLines = b.slice(prefix, b.length - suffix);
+
+  // lcs[i][j] = length of the LCS of oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, prefix).map(text => ({ type: 'unchanged', text }));
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      lines.push({ type: 'unchanged', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (i < oldLines.length && (j === newLines.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      // Removals come before additions within a changed block
+      lines.push({ type: 'removed', text: oldLines[i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: newLines[j] });
+      j++;
+    }
+  }
+  lines.push(...a.slice(a.length - suffix).map(text => ({ type: 'unchanged' as const, text })));
+
+  return lines;
+}
@@ -0,0 +1,35 @@
+// Options of the embeddable changelog widget, read from the iframe URL that public/embed.js builds:
+// /embed/{owner}/{repo}?branch=main&limit=5&theme=light|dark|auto&compact=1
+
+export const EMBED_THEMES = ['light', 'dark', 'auto'] as const;
+
+export type EmbedTheme = typeof EMBED_THEMES[number];
+
+// Releases shown when the embed does not ask for a number, and the most it may ask for
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+
+export interface EmbedOptions {
+  branch?: string; // The repository's default branch when unset
+  limit: number;
+  theme: EmbedTheme;
+  compact: boolean;
+}
+
+function param(value: string | string[] | undefined): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Invalid values fall back to the defaults rather than failing, as the widget sits on someone else's page
+export function parseEmbedOptions(searchParams: Record<string, string | string[] | undefined>): EmbedOptions {
+  const limit = Number(param(searchParams.limit) ?? DEFAULT_LIMIT);
+  const theme = param(searchParams.theme);
+  const compact = param(searchParams.compact);
+
+  return {
+    branch: param(searchParams.branch),
+    limit: Number.isInteger(limit) ? Math.min(Math.max(limit, 1), MAX_LIMIT) : DEFAULT_LIMIT,
+    theme: (EMBED_THEMES as readonly string[]).includes(theme ?? '') ? theme as EmbedTheme : 'auto',
+    compact: compact === '1' || compact === 'true',
+  };
+}
@@ -0,0 +1,171 @@
+// Typed API errors. Every route reports failures as { error, code, details? } so scripts can
+// branch on the stable `code` instead of parsing messages.
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+
+export const ERROR_CODES = [
+  'invalid_request',
+  'unauthorized',
+  'forbidden',
+  'server_misconfigured',
+  'not_found',
+  'github_not_found',
+  'github_rate_limited',
+  'github_unavailable',
+  'range_empty',
+  'overlap_conflict',
+  'llm_unavailable',
+  'database_error',
+  'internal_error',
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+export class ApiError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  readonly details?: unknown;
+  // Returned to clients instead of `message` when the message carries internal detail
+  readonly publicMessage?: string;
+
+  constructor(code: ErrorCode, status: number, message: string, options: { details?: unknown; publicMessage?: string } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.details = options.details;
+    this.publicMessage = options.publicMessage;
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super('invalid_request', 400, message, { details });
+    this.name = 'ValidationError';
+  }
+}
+
+// No valid sign-in on a request that requires one
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Sign in to manage changelogs') {
+    super('unauthorized', 401, message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// Signed in, but not allowed to change this resource
+export class ForbiddenError extends ApiError {
+  constructor(message: string) {
+    super('forbidden', 403, message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// Missing or invalid deployment configuration; the message is logged but not returned
+export class ConfigurationError extends ApiError {
+  constructor(message: string) {
+    super('server_misconfigured', 500, message, { publicMessage: 'Server configuration error' });
+    this.name = 'ConfigurationError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super('not_found', 404, message);
+    this.name = 'NotFoundError';
+  }
+}
+
+// A repository, tag, branch or commit that GitHub does not know about (or the token cannot see)
+export class GitHubNotFoundError extends ApiError {
+  constructor(message: string) {
+    super('github_not_found', 404, message);
+    this.name = 'GitHubNotFoundError';
+  }
+}
+
+export class GitHubRateLimitedError extends ApiError {
+  readonly retryAfterSeconds: number | null;
+
+  constructor(retryAfterSeconds: number | null) {
+    super('github_rate_limited', 429, 'GitHub API rate limit exceeded. Please try again later.', {
+      details: retryAfterSeconds === null ? undefined : { retryAfterSeconds },
+    });
+    this.name = 'GitHubRateLimitedError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// Any other unexpected GitHub response
+export class GitHubError extends ApiError {
+  constructor(message: string) {
+    super('github_unavailable', 502, message);
+    this.name = 'GitHubError';
+  }
+}
+
+export class RangeEmptyError extends ApiError {
+  constructor(message: string) {
+    super('range_empty', 404, message);
+    this.name = 'RangeEmptyError';
+  }
+}
+
+export class OverlapConflictError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super('overlap_conflict', 409, message, { details });
+    this.name = 'OverlapConflictError';
+  }
+}
+
+// The LLM provider failed or returned nothing usable; provider detail stays in the logs
+export class LLMUnavailableError extends ApiError {
+  constructor(message: string) {
+    super('llm_unavailable', 503, message, { publicMessage: 'AI service unavailable' });
+    this.name = 'LLMUnavailableError';
+  }
+}
+
+// Storage failures carry a user-facing message; the underlying error is logged where it happens
+export class DatabaseError extends ApiError {
+  constructor(message: string) {
+    super('database_error', 500, message);
+    this.name = 'DatabaseError';
+  }
+}
+
+// Request body parsed as JSON; a malformed body is the caller's mistake, not an internal error
+export async function parseJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+}
+
+// JSON body for an error, without the HTTP wrapping (also used for SSE `error` events)
+export function toErrorBody(error: unknown): { error: string; code: ErrorCode; details?: unknown } {
+  if (error instanceof z.ZodError) {
+    return { error: 'Invalid request data', code: 'invalid_request', details: error.errors };
+  }
+  if (error instanceof ApiError) {
+    return {
+      error: error.publicMessage ?? error.message,
+      code: error.code,
+      ...(error.details !== undefined && { details: error.details }),
+    };
+  }
+  return { error: 'Internal server error', code: 'internal_error' };
+}
+
+// Map any thrown value to a JSON error response
+export function errorResponse(error: unknown): NextResponse {
+  const body = toErrorBody(error);
+  const status = error instanceof ApiError ? error.status : body.code === 'invalid_request' ? 400 : 500;
+  const headers: Record<string, string> = {};
+  if (error instanceof GitHubRateLimitedError && error.retryAfterSeconds !== null) {
+    headers['Retry-After'] = String(error.retryAfterSeconds);
+  }
+  return NextResponse.json(body, { status, headers });
+}
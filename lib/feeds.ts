@@ -0,0 +1,114 @@
+// RSS 2.0, Atom 1.0 and JSON Feed 1.1 rendering for a repository's changelog
+
+import { escapeHtml } from '@/lib/markdown';
+
+export const FEED_FORMATS = ['rss', 'atom', 'json'] as const;
+
+export type FeedFormat = typeof FEED_FORMATS[number];
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+export interface FeedItem {
+  id: string;
+  url: string; // Permalink to the release
+  title: string;
+  html: string;
+  markdown: string;
+  publishedAt: string;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  homePageUrl: string;
+  feedUrl: string;
+  items: FeedItem[]; // Newest first
+}
+
+// Escaping for XML text and attribute values; the same five entities as HTML
+const escapeXml = escapeHtml;
+
+// Newest publish date, or now for an empty feed
+function lastUpdated(feed: Feed): Date {
+  return feed.items.length > 0 ? new Date(feed.items[0].publishedAt) : new Date();
+}
+
+export function renderRssFeed(feed: Feed): string {
+  const items = feed.items.map(item => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="true">${escapeXml(item.url)}</guid>
+      <pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>
+      <description>${escapeXml(item.html)}</description>
+    </item>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homePageUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${lastUpdated(feed).toUTCString()}</lastBuildDate>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+export function renderAtomFeed(feed: Feed): string {
+  const entries = feed.items.map(item => `  <entry>
+    <id>${escapeXml(item.url)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />
+    <published>${new Date(item.publishedAt).toISOString()}</published>
+    <updated>${new Date(item.publishedAt).toISOString()}</updated>
+    <content type="html">${escapeXml(item.html)}</content>
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feed.homePageUrl)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}" />
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.homePageUrl)}" />
+  <updated>${lastUpdated(feed).toISOString()}</updated>
+  <author><name>${escapeXml(feed.title)}</name></author>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homePageUrl,
+    feed_url: feed.feedUrl,
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      content_html: item.html,
+      content_text: item.markdown,
+      date_published: new Date(item.publishedAt).toISOString(),
+    })),
+  }, null, 2);
+}
+
+export function renderFeed(feed: Feed, format: FeedFormat): string {
+  switch (format) {
+    case 'rss':
+      return renderRssFeed(feed);
+    case 'atom':
+      return renderAtomFeed(feed);
+    case 'json':
+      return renderJsonFeed(feed);
+  }
+}
@@ -0,0 +1,224 @@
+// Shared GitHub REST client: auth headers, rate-limit backoff and an ETag cache for conditional requests
+
+import { ApiError, GitHubError, GitHubNotFoundError, GitHubRateLimitedError } from '@/lib/errors';
+
+export const GITHUB_API_URL = 'https://api.github.com';
+
+// Retries for rate-limited (403/429) responses before the response is handed back to the caller
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+// Never sleep longer than this for a single retry; longer waits fail fast instead
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+
+// First backoff step for secondary limits that come without Retry-After
+const SECONDARY_LIMIT_BACKOFF_MS = 1_000;
+
+// Warn once the primary quota drops below this many requests
+const LOW_RATE_LIMIT_THRESHOLD = 100;
+
+// Number of responses kept for conditional requests
+const ETAG_CACHE_SIZE = 500;
+
+export interface GitHubRateLimit {
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch milliseconds
+}
+
+interface CachedResponse {
+  etag: string;
+  body: string;
+  status: number;
+  headers: [string, string][];
+}
+
+// Module-level state is shared by every route running in this server process
+const etagCache = new Map<string, CachedResponse>();
+let rateLimit: GitHubRateLimit | null = null;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Latest X-RateLimit-* values seen on any response
+export function getGitHubRateLimit(): GitHubRateLimit | null {
+  return rateLimit;
+}
+
+function recordRateLimit(response: Response): void {
+  const limit = response.headers.get('x-ratelimit-limit');
+  const remaining = response.headers.get('x-ratelimit-remaining');
+  const reset = response.headers.get('x-ratelimit-reset');
+  if (limit === null || remaining === null || reset === null) {
+    return;
+  }
+
+  rateLimit = {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: Number(reset) * 1000,
+  };
+
+  if (rateLimit.remaining > 0 && rateLimit.remaining < LOW_RATE_LIMIT_THRESHOLD) {
+    console.warn(`GitHub rate limit low: ${rateLimit.remaining}/${rateLimit.limit} requests left until ${new Date(rateLimit.resetAt).toISOString()}`);
+  }
+}
+
+function isRateLimited(response: Response): boolean {
+  if (response.status === 429) {
+    return true;
+  }
+  // GitHub also reports both primary and secondary limits as 403
+  return response.status === 403 && (
+    response.headers.has('retry-after') ||
+    response.headers.get('x-ratelimit-remaining') === '0'
+  );
+}
+
+// How long to wait before retrying a rate-limited response, per GitHub's guidance:
+// Retry-After first, then the primary reset time, then exponential backoff
+function retryDelay(response: Response, attempt: number): number {
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter !== null) {
+    return Number(retryAfter) * 1000;
+  }
+
+  const reset = response.headers.get('x-ratelimit-reset');
+  if (response.headers.get('x-ratelimit-remaining') === '0' && reset !== null) {
+    return Math.max(Number(reset) * 1000 - Date.now(), 0);
+  }
+
+  return SECONDARY_LIMIT_BACKOFF_MS * 2 ** attempt;
+}
+
+function cacheResponse(url: string, etag: string, body: string, response: Response): void {
+  // Re-inserting moves the entry to the end, so the oldest entry is evicted first
+  etagCache.delete(url);
+  etagCache.set(url, { etag, body, status: response.status, headers: [...response.headers.entries()] });
+
+  if (etagCache.size > ETAG_CACHE_SIZE) {
+    const oldest = etagCache.keys().next().value;
+    if (oldest !== undefined) {
+      etagCache.delete(oldest);
+    }
+  }
+}
+
+// GET a GitHub API path (or absolute URL). 304 Not Modified answers are served from the
+// ETag cache and do not count against the quota. Rate-limited responses are retried with backoff;
+// if the limit persists the last response is returned for the caller to report.
+// With `token`, the request is made as that user instead of with GITHUB_PAT; such responses
+// are user-specific, so they bypass the shared ETag cache and rate-limit tracking.
+export async function githubFetch(path: string, options: { signal?: AbortSignal; token?: string } = {}): Promise<Response> {
+  const url = path.startsWith('http') ? path : `${GITHUB_API_URL}${path}`;
+  const shared = options.token === undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    // Don't spend a request we already know will be rejected
+    if (shared && rateLimit && rateLimit.remaining === 0 && rateLimit.resetAt > Date.now()) {
+      const wait = rateLimit.resetAt - Date.now();
+      if (wait <= MAX_RATE_LIMIT_WAIT_MS) {
+        await sleep(wait);
+      }
+    }
+
+    const cached = shared ? etagCache.get(url) : undefined;
+    const headers: Record<string, string> = {
+      'Authorization': `token ${options.token ?? process.env.GITHUB_PAT}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'User-Agent': 'Relix-Changelog-Generator'
+    };
+    if (cached) {
+      headers['If-None-Match'] = cached.etag;
+    }
+
+    const response = await fetch(url, { headers, signal: options.signal, cache: 'no-store' });
+    if (shared) {
+      recordRateLimit(response);
+    }
+
+    if (response.status === 304 && cached) {
+      return new Response(cached.body, { status: cached.status, headers: cached.headers });
+    }
+
+    if (isRateLimited(response) && attempt < MAX_RATE_LIMIT_RETRIES) {
+      const wait = retryDelay(response, attempt);
+      if (wait <= MAX_RATE_LIMIT_WAIT_MS) {
+        console.warn(`GitHub rate limit hit (${response.status}), retrying in ${Math.ceil(wait / 1000)}s`);
+        await sleep(wait);
+        continue;
+      }
+    }
+
+    const etag = response.headers.get('etag');
+    if (!response.ok || !etag || !shared) {
+      return response;
+    }
+
+    // Buffer the body so it can be both cached and returned
+    const body = await response.text();
+    cacheResponse(url, etag, body, response);
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+}
+
+// Typed error for a failed response, so routes can report not-found and rate limits distinctly
+export function githubError(response: Response, notFoundMessage: string): ApiError {
+  if (response.status === 404) {
+    return new GitHubNotFoundError(notFoundMessage);
+  }
+  if (isRateLimited(response)) {
+    return new GitHubRateLimitedError(Math.ceil(retryDelay(response, MAX_RATE_LIMIT_RETRIES) / 1000));
+  }
+  return new GitHubError(`GitHub API error: ${response.status} ${response.statusText}`);
+}
+
+// Whether a GitHub user is a collaborator on the repository. The lookup needs push access
+// for GITHUB_PAT; if the token is not allowed to list collaborators, nobody counts as one.
+export async function isRepoCollaborator(repo: string, login: string): Promise<boolean> {
+  const response = await githubFetch(`/repos/${repo}/collaborators/${encodeURIComponent(login)}`);
+  if (response.status === 204) {
+    return true;
+  }
+  if (response.status === 404 || (response.status === 403 && !isRateLimited(response))) {
+    return false;
+  }
+  throw githubError(response, `Repository '${repo}' not found`);
+}
+
+// A repository as seen by a token's user: its visibility and the user's access to it
+export interface GitHubRepoAccess {
+  private: boolean;
+  admin: boolean;
+  maintain: boolean;
+  push: boolean;
+}
+
+// GitHub login of the user a token belongs to, or null if GitHub rejects the token
+export async function getTokenLogin(token: string): Promise<string | null> {
+  const response = await githubFetch('/user', { token });
+  if (response.status === 401) {
+    return null;
+  }
+  if (!response.ok) {
+    throw githubError(response, 'GitHub user not found');
+  }
+  const user = await response.json();
+  return user.login;
+}
+
+// The repository as seen by the token's user, or null if they cannot see it (or the token is rejected)
+export async function getRepoAccess(repo: string, token: string): Promise<GitHubRepoAccess | null> {
+  const response = await githubFetch(`/repos/${repo}`, { token });
+  if (response.status === 401 || response.status === 404 || (response.status === 403 && !isRateLimited(response))) {
+    return null;
+  }
+  if (!response.ok) {
+    throw githubError(response, `Repository '${repo}' not found`);
+  }
+  const { private: isPrivate, permissions } = await response.json();
+  return {
+    private: Boolean(isPrivate),
+    admin: Boolean(permissions?.admin),
+    maintain: Boolean(permissions?.maintain),
+    push: Boolean(permissions?.push),
+  };
+}
@@ -0,0 +1,142 @@
+// Minimal glob matching for repository paths.
+// Supports "**" (any number of directories), "*" (within one segment), "?" and "{a,b}".
+//
+// Patterns come from request bodies, so they are not compiled to regular expressions: a pattern
+// such as "*a*a*a*b" makes a backtracking regex take exponential time. Instead each pattern becomes
+// a small automaton that is run over the path one character at a time, tracking every state the
+// pattern could be in, which takes time proportional to path length times pattern length.
+
+interface GlobState {
+  // Character this state consumes, or null for a state that only has epsilon moves
+  accepts: ((char: string) => boolean) | null;
+  // State reached after consuming a character
+  next: number;
+  // States reachable without consuming a character
+  epsilon: number[];
+}
+
+interface CompiledGlob {
+  states: GlobState[];
+  start: number;
+  accept: number;
+}
+
+// Compiled patterns, bounded so request-supplied patterns cannot grow it without limit
+const MAX_CACHED_GLOBS = 500;
+const cache = new Map<string, CompiledGlob>();
+
+const anyChar = () => true;
+const segmentChar = (char: string) => char !== '/';
+const slash = (char: string) => char === '/';
+
+function compileGlob(pattern: string): CompiledGlob {
+  const states: GlobState[] = [];
+  const addState = (accepts: GlobState['accepts'], next = -1, epsilon: number[] = []) => {
+    states.push({ accepts, next, epsilon });
+    return states.length - 1;
+  };
+  // "x*" loop: any number of characters accepted by `accepts`, then continue with `next`
+  const addLoop = (accepts: (char: string) => boolean, next: number) => {
+    const loop = addState(accepts, -1, [next]);
+    states[loop].next = loop;
+    return loop;
+  };
+
+  // States for `source` followed by the state `next`, built from the end of the pattern backwards.
+  // Brace options are compiled the same way as the rest of the pattern.
+  const compileSequence = (source: string, next: number): number => {
+    const steps: Array<(next: number) => number> = [];
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+      if (char === '*') {
+        // Runs of stars collapse: "*" stays within one segment, two or more cross directories
+        let end = i;
+        while (source[end + 1] === '*') {
+          end++;
+        }
+        if (end === i) {
+          steps.push(next => addLoop(segmentChar, next));
+        } else if (source[end + 1] === '/') {
+          // "**/" matches zero or more directories
+          steps.push(next => addState(null, -1, [next, addLoop(anyChar, addState(slash, next))]));
+          end++;
+        } else {
+          // A trailing "**" matches everything below
+          steps.push(next => addLoop(anyChar, next));
+        }
+        i = end;
+      } else if (char === '?') {
+        steps.push(next => addState(segmentChar, next));
+      } else if (char === '{' && source.indexOf('}', i) !== -1) {
+        const close = source.indexOf('}', i);
+        const options = source.slice(i + 1, close).split(',');
+        steps.push(next => addState(null, -1, options.map(option => compileSequence(option, next))));
+        i = close;
+      } else {
+        steps.push(next => addState(other => other === char, next));
+      }
+    }
+    return steps.reduceRight((continuation, step) => step(continuation), next);
+  };
+
+  const accept = addState(null);
+  // A bare directory such as "packages/web/" or "packages/web" also matches everything below it
+  const suffix = pattern.endsWith('/')
+    ? addLoop(anyChar, accept)
+    : addState(null, -1, [accept, addState(slash, addLoop(anyChar, accept))]);
+  const start = compileSequence(pattern, suffix);
+  return { states, start, accept };
+}
+
+function getCompiledGlob(pattern: string): CompiledGlob {
+  const cached = cache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const compiled = compileGlob(pattern);
+  if (cache.size >= MAX_CACHED_GLOBS) {
+    // Evict the oldest entry; Maps iterate in insertion order
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(pattern, compiled);
+  return compiled;
+}
+
+// Add `state` and everything reachable from it by epsilon moves to `set`
+function addWithClosure(glob: CompiledGlob, state: number, set: Set<number>): void {
+  const pending = [state];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (set.has(current)) {
+      continue;
+    }
+    set.add(current);
+    pending.push(...glob.states[current].epsilon);
+  }
+}
+
+export function matchesGlob(path: string, pattern: string): boolean {
+  const glob = getCompiledGlob(pattern.replace(/^\.?\//, ''));
+
+  let current = new Set<number>();
+  addWithClosure(glob, glob.start, current);
+  for (const char of path) {
+    const next = new Set<number>();
+    for (const state of current) {
+      const { accepts, next: target } = glob.states[state];
+      if (accepts && accepts(char)) {
+        addWithClosure(glob, target, next);
+      }
+    }
+    if (next.size === 0) {
+      return false;
+    }
+    current = next;
+  }
+  return current.has(glob.accept);
+}
+
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+  return patterns.some(pattern => matchesGlob(path, pattern));
+}
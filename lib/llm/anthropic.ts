@@ -0,0 +1,87 @@
+import { parseServerSentEvents } from '@/lib/sse';
+import { CompletionRequest, LLMProvider, LLMProviderError } from './types';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Network failures, aborted bodies and malformed payloads all count as provider failures,
+// so callers can fall back the same way they do for the OpenAI SDK's errors
+function toProviderError(error: unknown): LLMProviderError {
+  if (error instanceof LLMProviderError) {
+    return error;
+  }
+  return new LLMProviderError('anthropic', error instanceof Error ? error.message : String(error));
+}
+
+// Anthropic Messages API over plain fetch
+export function createAnthropicProvider(env: { apiKey: string; model: string }): LLMProvider {
+  const send = async (request: CompletionRequest, stream: boolean): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(ANTHROPIC_API_URL, {
+        method: 'POST',
+        headers: {
+          'x-api-key': env.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: env.model,
+          system: request.system,
+          messages: [{ role: 'user', content: request.prompt }],
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream,
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      throw toProviderError(error);
+    }
+
+    if (!response.ok) {
+      throw new LLMProviderError('anthropic', `${response.status} ${response.statusText}`);
+    }
+
+    return response;
+  };
+
+  return {
+    name: 'anthropic',
+    model: env.model,
+    async complete(request: CompletionRequest): Promise<string> {
+      const response = await send(request, false);
+      try {
+        const data = await response.json();
+        return (data.content || [])
+          .filter((block: any) => block.type === 'text')
+          .map((block: any) => block.text)
+          .join('');
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      const response = await send(request, true);
+      if (!response.body) {
+        throw new LLMProviderError('anthropic', 'Empty streaming response');
+      }
+
+      try {
+        for await (const event of parseServerSentEvents(response.body)) {
+          if (event.event === 'error') {
+            throw new LLMProviderError('anthropic', event.data);
+          }
+          if (event.event === 'content_block_delta') {
+            const data = JSON.parse(event.data);
+            if (data.delta?.type === 'text_delta') {
+              yield data.delta.text;
+            }
+          }
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { CompletionRequest, LLMProvider } from './types';
+
+// Deterministic provider for offline development: echoes the bullet and note lines of the
+// prompt back as a changelog, so generation works without an API key or model server.
+export function createFakeProvider(): LLMProvider {
+  const render = (request: CompletionRequest): string => {
+    const lines = request.prompt
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => /^- [0-9a-f]{7,40}:/.test(line) || line.startsWith('['));
+
+    return ['# Changelog', '', '## Internal Changes', ...lines.map(line => line.startsWith('- ') ? line : `- ${line}`)].join('\n');
+  };
+
+  return {
+    name: 'fake',
+    model: 'fake',
+    async complete(request: CompletionRequest): Promise<string> {
+      return render(request);
+    },
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      // Emit word by word so streaming consumers see several chunks
+      for (const chunk of render(request).split(/(?<=\s)/)) {
+        if (request.signal?.aborted) {
+          return;
+        }
+        yield chunk;
+      }
+    },
+  };
+}
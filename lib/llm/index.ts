@@ -0,0 +1,56 @@
+import { createAnthropicProvider } from './anthropic';
+import { createFakeProvider } from './fake';
+import { createLocalProvider, createOpenAIProvider } from './openai';
+import { ConfigurationError } from '@/lib/errors';
+import { LLMProvider, PROVIDER_NAMES, ProviderName } from './types';
+
+export * from './types';
+
+function requireEnv(names: string[]): Record<string, string> {
+  const missing = names.filter(name => !process.env[name]);
+  if (missing.length > 0) {
+    throw new ConfigurationError(`Missing required environment variables: ${missing.join(', ')}`);
+  }
+  return Object.fromEntries(names.map(name => [name, process.env[name] as string]));
+}
+
+// Provider configured for this deployment via LLM_PROVIDER (defaults to OpenAI)
+export function getDefaultProviderName(): ProviderName {
+  const configured = process.env.LLM_PROVIDER;
+  if (configured && (PROVIDER_NAMES as readonly string[]).includes(configured)) {
+    return configured as ProviderName;
+  }
+  if (configured) {
+    throw new ConfigurationError(`Invalid LLM_PROVIDER '${configured}'. Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+  return 'openai';
+}
+
+// Build the requested provider, falling back to the deployment default
+export function getLLMProvider(name: ProviderName = getDefaultProviderName()): LLMProvider {
+  switch (name) {
+    case 'openai': {
+      const env = requireEnv(['OPENAI_API_KEY']);
+      return createOpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        heliconeApiKey: process.env.HELICONE_API_KEY,
+      });
+    }
+    case 'anthropic': {
+      const env = requireEnv(['ANTHROPIC_API_KEY']);
+      return createAnthropicProvider({
+        apiKey: env.ANTHROPIC_API_KEY,
+        model: process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest',
+      });
+    }
+    case 'local':
+      return createLocalProvider({
+        baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+      });
+    case 'fake':
+      return createFakeProvider();
+  }
+}
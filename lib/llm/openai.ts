@@ -0,0 +1,95 @@
+import OpenAI from 'openai';
+import { CompletionRequest, LLMProvider, LLMProviderError, ProviderName } from './types';
+
+interface OpenAIChatProviderOptions {
+  name: ProviderName;
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+  defaultHeaders?: Record<string, string>;
+}
+
+// Chat completions through the OpenAI SDK, shared by OpenAI and OpenAI-compatible servers
+export function createOpenAIChatProvider(options: OpenAIChatProviderOptions): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    defaultHeaders: options.defaultHeaders,
+  });
+
+  const toMessages = (request: CompletionRequest) => [
+    {
+      role: 'system' as const,
+      content: request.system
+    },
+    {
+      role: 'user' as const,
+      content: request.prompt
+    }
+  ];
+
+  return {
+    name: options.name,
+    model: options.model,
+    async complete(request: CompletionRequest): Promise<string> {
+      try {
+        const response = await client.chat.completions.create({
+          model: options.model,
+          messages: toMessages(request),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+        }, { signal: request.signal });
+
+        return response.choices[0]?.message?.content || '';
+      } catch (error) {
+        throw new LLMProviderError(options.name, error instanceof Error ? error.message : String(error));
+      }
+    },
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      try {
+        const stream = await client.chat.completions.create({
+          model: options.model,
+          messages: toMessages(request),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: true,
+        }, { signal: request.signal });
+
+        for await (const chunk of stream) {
+          const text = chunk.choices[0]?.delta?.content;
+          if (text) {
+            yield text;
+          }
+        }
+      } catch (error) {
+        throw new LLMProviderError(options.name, error instanceof Error ? error.message : String(error));
+      }
+    },
+  };
+}
+
+// OpenAI, routed through the Helicone proxy when a Helicone key is configured
+export function createOpenAIProvider(env: { apiKey: string; model: string; heliconeApiKey?: string }): LLMProvider {
+  return createOpenAIChatProvider({
+    name: 'openai',
+    apiKey: env.apiKey,
+    model: env.model,
+    ...(env.heliconeApiKey && {
+      baseURL: 'https://oai.hconeai.com/v1',
+      defaultHeaders: {
+        'Helicone-Auth': `Bearer ${env.heliconeApiKey}`,
+      },
+    }),
+  });
+}
+
+// Any server exposing the OpenAI chat completions API (Ollama, llama.cpp, vLLM)
+export function createLocalProvider(env: { baseURL: string; model: string; apiKey?: string }): LLMProvider {
+  return createOpenAIChatProvider({
+    name: 'local',
+    // Local servers typically ignore the key, but the SDK requires one
+    apiKey: env.apiKey || 'local',
+    model: env.model,
+    baseURL: env.baseURL,
+  });
+}
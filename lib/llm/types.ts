@@ -0,0 +1,32 @@
+import { LLMUnavailableError } from '@/lib/errors';
+
+// A single chat-style completion request sent to an LLM provider
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  // Aborts the upstream request, e.g. when the client cancels a streaming draft
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  // Stable identifier used in configuration and logs
+  name: ProviderName;
+  model: string;
+  complete(request: CompletionRequest): Promise<string>;
+  // Yields the completion text incrementally as the model produces it
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export const PROVIDER_NAMES = ['openai', 'anthropic', 'local', 'fake'] as const;
+
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+// Wrap provider failures so callers can fall back or report "AI service unavailable"
+export class LLMProviderError extends LLMUnavailableError {
+  constructor(provider: ProviderName, message: string) {
+    super(`LLM provider '${provider}' failed: ${message}`);
+    this.name = 'LLMProviderError';
+  }
+}
@@ -0,0 +1,215 @@
+// Markdown to HTML for contexts without React, such as feeds. Covers what release notes use:
+// headings, (nested) lists, paragraphs, blockquotes, rules, fenced code, emphasis, code spans and links.
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Links may only point to web, mail or relative targets, never javascript: and the like
+function isSafeHref(href: string): boolean {
+  return /^(https?:|mailto:|\/|#)/i.test(href) || !/^[a-z][a-z0-9+.-]*:/i.test(href);
+}
+
+function renderInline(text: string): string {
+  // Code spans are set aside first so their contents are not formatted
+  const codeSpans: string[] = [];
+  let html = text.replace(/`([^`]+)`/g, (_, code: string) => `\u0000${codeSpans.push(`<code>${escapeHtml(code)}</code>`) - 1}\u0000`);
+
+  html = escapeHtml(html)
+    // Hrefs may hold balanced parentheses, e.g. wiki links or "javascript:alert(1)", so the whole
+    // link is matched (and dropped when unsafe) instead of being cut at the first ")"
+    .replace(/\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g, (_, label: string, href: string) =>
+      isSafeHref(href) ? `<a href="${href}">${label}</a>` : label
+    )
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|\W)__(.+?)__(?=\W|$)/g, '$1<strong>$2</strong>')
+    .replace(/\*([^*\s](?:[^*]*[^*\s])?)\*/g, '<em>$1</em>')
+    .replace(/(^|\W)_([^_\s](?:[^_]*[^_\s])?)_(?=\W|$)/g, '$1<em>$2</em>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => codeSpans[Number(index)]);
+}
+
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  // Open lists, innermost last; each has an unclosed <li>
+  const lists: { type: 'ul' | 'ol'; indent: number }[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${paragraph.map(renderInline).join('\n')}</p>`);
+      paragraph = [];
+    }
+  };
+
+  const closeList = () => {
+    html.push(`</li></${lists.pop()!.type}>`);
+  };
+
+  const closeLists = () => {
+    while (lists.length > 0) {
+      closeList();
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*```\s*([\w-]*)/);
+    if (fence) {
+      flushParagraph();
+      closeLists();
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```/.test(lines[i])) {
+        code.push(lines[i]);
+      }
+      const language = fence[1] ? ` class="language-${fence[1]}"` : '';
+      html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (line.trim() === '') {
+      // Lists stay open across blank lines so loose lists render as one list
+      flushParagraph();
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      flushParagraph();
+      const indent = item[1].length;
+      const type = /\d/.test(item[2]) ? 'ol' : 'ul';
+      while (lists.length > 0 && lists[lists.length - 1].indent > indent) {
+        closeList();
+      }
+      const current = lists[lists.length - 1];
+      if (current && current.indent === indent && current.type === type) {
+        html.push('</li><li>');
+      } else {
+        if (current && current.indent === indent) {
+          closeList();
+        }
+        html.push(`<${type}><li>`);
+        lists.push({ type, indent });
+      }
+      html.push(renderInline(item[3]));
+      continue;
+    }
+
+    // Indented text continues the current list item
+    if (lists.length > 0 && /^\s/.test(line)) {
+      html.push(` ${renderInline(line.trim())}`);
+      continue;
+    }
+    closeLists();
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flushParagraph();
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      html.push('<hr>');
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      for (; i < lines.length && /^\s*>/.test(lines[i]); i++) {
+        quoted.push(lines[i].replace(/^\s*>\s?/, ''));
+      }
+      i--;
+      html.push(`<blockquote>${markdownToHtml(quoted.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  closeLists();
+  return html.join('\n');
+}
+
+// Plain-text start of a markdown document, for descriptions and previews. Headings, rules and code
+// blocks are skipped; list markers, emphasis and link targets are dropped.
+export function markdownExcerpt(markdown: string, maxLength: number): string {
+  const text = markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/^\s*```[\s\S]*?^\s*```\s*$/gm, '')
+    .split('\n')
+    .map(line => line
+      .replace(/^\s*#{1,6}\s.*$/, '')
+      .replace(/^\s*(>\s?|[-*+]\s+|\d+[.)]\s+)/, '')
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/[`*]|__/g, '')
+      .trim()
+    )
+    .filter(line => line !== '' && !/^([-=_])\1+$/.test(line))
+    .join(' ');
+
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength - 1);
+  const wordBoundary = cut.lastIndexOf(' ');
+  return `${(wordBoundary > maxLength / 2 ? cut.slice(0, wordBoundary) : cut).trimEnd()}…`;
+}
+
+export interface SectionCount {
+  title: string;
+  count: number;
+}
+
+// Top-level list items under each section heading (## and below), e.g. "New Features: 3". The
+// first heading level is the release title and does not count. Headings keep their first-seen
+// order, repeated headings are merged, and emoji or other decoration before the text is dropped.
+export function markdownSectionCounts(markdown: string): SectionCount[] {
+  const counts = new Map<string, SectionCount>();
+  let current: SectionCount | null = null;
+  let inFence = false;
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^\s*```/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      continue;
+    }
+
+    const heading = line.match(/^#{2,6}\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      const title = heading[1].replace(/[*_`]/g, '').replace(/^[^\p{L}\p{N}]+/u, '').trim();
+      const key = title.toLowerCase();
+      if (!title) {
+        current = null;
+      } else {
+        if (!counts.has(key)) {
+          counts.set(key, { title, count: 0 });
+        }
+        current = counts.get(key)!;
+      }
+      continue;
+    }
+
+    if (current && /^([-*+]|\d+[.)])\s+/.test(line)) {
+      current.count++;
+    }
+  }
+
+  return [...counts.values()].filter(section => section.count > 0);
+}
@@ -0,0 +1,50 @@
+// Include/exclude path globs that scope a changelog to part of a repository (e.g. one monorepo package)
+
+import { matchesAnyGlob } from '@/lib/glob';
+
+export interface PathScope {
+  include: string[];
+  exclude: string[];
+}
+
+function normalizePatterns(patterns: string[] = []): string[] {
+  const cleaned = patterns
+    .map(pattern => pattern.trim().replace(/^\.?\//, ''))
+    .filter(Boolean);
+  return [...new Set(cleaned)].sort();
+}
+
+export function normalizePathScope(include?: string[], exclude?: string[]): PathScope {
+  return { include: normalizePatterns(include), exclude: normalizePatterns(exclude) };
+}
+
+export function isEmptyPathScope(scope: PathScope): boolean {
+  return scope.include.length === 0 && scope.exclude.length === 0;
+}
+
+// Stable key stored with each release so overlap checks compare like with like.
+// The whole repository is the empty string.
+export function pathScopeKey(scope: PathScope): string {
+  if (isEmptyPathScope(scope)) {
+    return '';
+  }
+  return [...scope.include.map(pattern => `+${pattern}`), ...scope.exclude.map(pattern => `-${pattern}`)].join('\n');
+}
+
+export function isPathInScope(path: string, scope: PathScope): boolean {
+  if (scope.include.length > 0 && !matchesAnyGlob(path, scope.include)) {
+    return false;
+  }
+  return !matchesAnyGlob(path, scope.exclude);
+}
+
+// A commit belongs to the scope when at least one file it touches does
+export function commitTouchesScope(files: string[], scope: PathScope): boolean {
+  return files.some(file => isPathInScope(file, scope));
+}
+
+// Human-readable summary, e.g. "packages/web/** (excluding **/*.md)"
+export function describePathScope(scope: PathScope): string {
+  const included = scope.include.length > 0 ? scope.include.join(', ') : 'all paths';
+  return scope.exclude.length > 0 ? `${included} (excluding ${scope.exclude.join(', ')})` : included;
+}
@@ -0,0 +1,91 @@
+// Public shape of a release and its permalink, shared by the API, the feeds and the release pages
+
+import type { ReleaseSlice, ReleaseStore } from '@/lib/storage';
+
+// Release ids are UUIDs; anything else in a permalink is a tag
+const RELEASE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Permalink page of a release
+export function releasePath(repo: string, id: string): string {
+  return `/${repo}/releases/${id}`;
+}
+
+// A published release of the repository by id or, failing that, by head tag. A tag published
+// more than once (e.g. on several branches) resolves to the newest release unless a branch is given.
+export async function findPublishedRelease(
+  store: ReleaseStore,
+  repo: string,
+  ref: string,
+  branch?: string
+): Promise<ReleaseSlice | null> {
+  if (RELEASE_ID_PATTERN.test(ref)) {
+    const release = await store.getRelease(ref);
+    if (release && release.repo === repo && !release.unpublished_at) {
+      return release;
+    }
+  }
+
+  const [tagged] = await store.listReleases({ repo, branch, headTag: ref, limit: 1 });
+  return tagged ?? null;
+}
+
+// Published releases of a repository that can be shown without the viewer's GitHub token, i.e. all
+// but private repositories'. Server-rendered pages use these; private ones load in the browser.
+export async function listPublicReleases(store: ReleaseStore, repo: string, branch?: string): Promise<ReleaseSlice[]> {
+  const releases = await store.listReleases({ repo, branch });
+  return releases.filter(release => !release.private_repo);
+}
+
+// Branch shown first: main, then master, then the first alphabetically
+export function defaultBranch(branches: string[]): string {
+  const sorted = [...branches].sort();
+  return sorted.find(b => b === 'main') || sorted.find(b => b === 'master') || sorted[0] || '';
+}
+
+// Transform database record to frontend format
+export function transformReleaseSlice(slice: ReleaseSlice) {
+  // Create a display tag/range based on the mode
+  let tag = null;
+  let range = '';
+
+  if (slice.mode === 'date') {
+    const startDate = slice.start_date ? new Date(slice.start_date).toISOString().split('T')[0] : 'unknown';
+    const endDate = slice.end_date ? new Date(slice.end_date).toISOString().split('T')[0] : 'unknown';
+    range = `${startDate} to ${endDate}`;
+  } else if (slice.mode === 'sha') {
+    const baseSha = slice.base_sha?.substring(0, 7) || 'unknown';
+    const headSha = slice.head_sha?.substring(0, 7) || 'unknown';
+    range = `${baseSha}...${headSha}`;
+  } else if (slice.mode === 'tag') {
+    tag = slice.head_tag || 'unknown';
+    range = `${slice.base_tag || 'unknown'}...${slice.head_tag || 'unknown'}`;
+  }
+
+  // The published version takes precedence over the raw head tag
+  if (slice.version) {
+    tag = slice.version;
+  }
+
+  return {
+    id: slice.id,
+    repo: slice.repo,
+    tag,
+    range,
+    publishedAt: slice.published_at,
+    markdown: slice.markdown,
+    mode: slice.mode,
+    branch: slice.branch,
+    hasBreakingChanges: slice.has_breaking_changes ?? false,
+    pathScope: {
+      include: slice.include_paths ?? [],
+      exclude: slice.exclude_paths ?? []
+    },
+    unpublished: Boolean(slice.unpublished_at),
+    // Releases from before publish-time verification count as community releases
+    verified: Boolean(slice.verified_publisher),
+    // Private repositories' releases have no public permalink page
+    privateRepo: Boolean(slice.private_repo)
+  };
+}
+
+export type PublicRelease = ReturnType<typeof transformReleaseSlice>;
@@ -0,0 +1,20 @@
+// Markdown edits to published releases, recorded as revisions
+
+import { hasBreakingChangesSection } from '@/lib/breaking-changes';
+import { ReleaseSlice, ReleaseStore } from '@/lib/storage';
+
+// Replace a release's markdown and append the new text as a revision. The store does both in
+// one step, so a failed or concurrent edit cannot leave the release and its history disagreeing.
+export async function editReleaseMarkdown(
+  store: ReleaseStore,
+  release: ReleaseSlice,
+  markdown: string,
+  options: { author: string | null; restoredFrom?: number }
+): Promise<ReleaseSlice | null> {
+  // Re-derive the breaking-change flag from the new text
+  return store.editReleaseMarkdown(
+    release.id,
+    { markdown, has_breaking_changes: hasBreakingChangesSection(markdown) },
+    { author: options.author, restored_from: options.restoredFrom ?? null }
+  );
+}
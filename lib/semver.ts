@@ -0,0 +1,106 @@
+// Semantic version inference for release headers
+
+import { ClassifiedCommit } from '@/lib/conventional-commits';
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  // Prefix of the original tag, e.g. "v" or "release-"
+  prefix: string;
+}
+
+export interface VersionInference {
+  next: string;
+  previous: string | null;
+  bump: VersionBump | null;
+  // "tag" when the head tag already names the release, "initial" when there is no earlier version
+  source: 'tag' | 'previous-release' | 'base-tag' | 'initial';
+}
+
+// Version used when a repository has no earlier release
+const INITIAL_VERSION = 'v0.1.0';
+
+const VERSION_PATTERN = /^(\D*?)(\d+)\.(\d+)\.(\d+)(?:[-+].*)?$/;
+
+export function parseVersion(tag: string): SemVer | null {
+  const match = tag.trim().match(VERSION_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return {
+    prefix: match[1],
+    major: parseInt(match[2], 10),
+    minor: parseInt(match[3], 10),
+    patch: parseInt(match[4], 10),
+  };
+}
+
+export function formatVersion(version: SemVer): string {
+  return `${version.prefix}${version.major}.${version.minor}.${version.patch}`;
+}
+
+export function bumpVersion(version: SemVer, bump: VersionBump): SemVer {
+  switch (bump) {
+    case 'major':
+      return { ...version, major: version.major + 1, minor: 0, patch: 0 };
+    case 'minor':
+      return { ...version, minor: version.minor + 1, patch: 0 };
+    case 'patch':
+      return { ...version, patch: version.patch + 1 };
+  }
+}
+
+// Major for breaking changes, minor for new features, patch otherwise
+export function inferBump(commits: ClassifiedCommit[], hasBreakingChanges: boolean): VersionBump {
+  if (hasBreakingChanges || commits.some(commit => commit.breaking)) {
+    return 'major';
+  }
+  if (commits.some(commit => commit.category === 'New Features')) {
+    return 'minor';
+  }
+  return 'patch';
+}
+
+export function inferNextVersion({
+  headTag,
+  baseTag,
+  previousVersion,
+  bump,
+}: {
+  // Tags of the generated range, when it was selected by tag
+  headTag?: string;
+  baseTag?: string;
+  // Most recent version published for the repository and branch
+  previousVersion: string | null;
+  bump: VersionBump;
+}): VersionInference {
+  // A release cut from a version tag is that version
+  const head = headTag ? parseVersion(headTag) : null;
+  if (head) {
+    return { next: headTag!.trim(), previous: previousVersion, bump: null, source: 'tag' };
+  }
+
+  const previous = previousVersion ? parseVersion(previousVersion) : null;
+  if (previous) {
+    return { next: formatVersion(bumpVersion(previous, bump)), previous: previousVersion, bump, source: 'previous-release' };
+  }
+
+  const base = baseTag ? parseVersion(baseTag) : null;
+  if (base) {
+    return { next: formatVersion(bumpVersion(base, bump)), previous: baseTag!, bump, source: 'base-tag' };
+  }
+
+  return { next: INITIAL_VERSION, previous: null, bump, source: 'initial' };
+}
+
+// Replace (or insert) the version in a "# Release <version> – <date>" header
+export function setReleaseHeaderVersion(markdown: string, version: string): string {
+  const header = /^# Release\b(?:\s+(?!–|-)\S+)?(\s+[–-]\s+.*)?$/m;
+  if (!header.test(markdown)) {
+    return markdown;
+  }
+  return markdown.replace(header, (_match, rest: string | undefined) => `# Release ${version}${rest ?? ''}`);
+}
@@ -0,0 +1,27 @@
+// Absolute URLs for metadata, sitemaps and structured data, which cannot use relative links
+
+import { headers } from 'next/headers';
+
+export const SITE_NAME = 'Relix';
+
+// SITE_URL when configured (e.g. https://relix.dev), otherwise the host the request came in on
+export async function getSiteUrl(): Promise<string> {
+  const configured = process.env.SITE_URL;
+  if (configured) {
+    return configured.replace(/\/+$/, '');
+  }
+
+  const requestHeaders = await headers();
+  const host = requestHeaders.get('x-forwarded-host') ?? requestHeaders.get('host') ?? 'localhost:3000';
+  const protocol = requestHeaders.get('x-forwarded-proto') ?? (host.startsWith('localhost') ? 'http' : 'https');
+  return `${protocol}://${host}`;
+}
+
+// Open Graph's recommended size, which Slack, X and LinkedIn all crop the same way
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+// Generated preview image of a repository's changelog or of one of its releases
+export function ogImagePath(repo: string, releaseId?: string): string {
+  const query = new URLSearchParams({ repo, ...(releaseId && { release: releaseId }) });
+  return `/api/og?${query}`;
+}
@@ -0,0 +1,65 @@
+// Minimal Server-Sent Events helpers shared by API routes and the console
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+const encoder = new TextEncoder();
+
+// Encode one event with a JSON payload
+export function encodeServerSentEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Parse an SSE byte stream into events. Events without an explicit name are reported as "message".
+export async function* parseServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+        const parsed = parseEventBlock(rawEvent);
+        if (parsed) {
+          yield parsed;
+        }
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    const trailing = parseEventBlock(buffer);
+    if (trailing) {
+      yield trailing;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
@@ -0,0 +1,53 @@
+import { ConfigurationError } from '@/lib/errors';
+import { createMemoryReleaseStore } from './memory';
+import { createSupabaseReleaseStore } from './supabase';
+import { ReleaseStore, STORAGE_BACKENDS, StorageBackend } from './types';
+
+export * from './types';
+
+function requireEnv(names: string[]): Record<string, string> {
+  const missing = names.filter(name => !process.env[name]);
+  if (missing.length > 0) {
+    throw new ConfigurationError(`Missing required environment variables: ${missing.join(', ')}`);
+  }
+  return Object.fromEntries(names.map(name => [name, process.env[name] as string]));
+}
+
+// Backend configured for this deployment via STORAGE_BACKEND (defaults to Supabase)
+export function getStorageBackend(): StorageBackend {
+  const configured = process.env.STORAGE_BACKEND;
+  if (configured && (STORAGE_BACKENDS as readonly string[]).includes(configured)) {
+    return configured as StorageBackend;
+  }
+  if (configured) {
+    throw new ConfigurationError(`Invalid STORAGE_BACKEND '${configured}'. Expected one of: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+  return 'supabase';
+}
+
+// The memory store holds state, so every route must share one instance. It is kept on
+// globalThis because Next.js may evaluate this module more than once per server process.
+const globalStore = globalThis as typeof globalThis & { __releaseStore?: ReleaseStore };
+
+export function getReleaseStore(): ReleaseStore {
+  if (globalStore.__releaseStore) {
+    return globalStore.__releaseStore;
+  }
+
+  let store: ReleaseStore;
+  switch (getStorageBackend()) {
+    case 'supabase': {
+      const env = requireEnv(['NEXT_PUBLIC_SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY']);
+      store = createSupabaseReleaseStore({
+        url: env.NEXT_PUBLIC_SUPABASE_URL,
+        serviceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY,
+      });
+      break;
+    }
+    case 'memory':
+      store = createMemoryReleaseStore({ filePath: process.env.RELEASE_STORE_FILE });
+      break;
+  }
+
+  return (globalStore.__releaseStore = store);
+}
@@ -0,0 +1,242 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { DatabaseError } from '@/lib/errors';
+import {
+  NewReleaseRevision,
+  NewReleaseSlice,
+  OverlapQuery,
+  ReleaseEditAttribution,
+  ReleaseFilter,
+  ReleaseMarkdownChanges,
+  ReleaseOverlap,
+  ReleaseRevision,
+  ReleaseSlice,
+  ReleaseStore,
+} from './types';
+
+interface StoreState {
+  releases: ReleaseSlice[];
+  revisions: ReleaseRevision[];
+}
+
+// In-process store for self-hosting without Supabase.
+// With a file path, releases are loaded from and written back to a JSON file; without one they
+// live only as long as the server process.
+export function createMemoryReleaseStore(
+  options: { filePath?: string } = {}
+): ReleaseStore {
+  // Loaded once and shared, so concurrent first requests read the file only once
+  let loading: Promise<StoreState> | null = null;
+  // Per-commit index for overlap checks: repo/branch/scope/sha -> ids of releases including it
+  const commitIndex = new Map<string, Set<string>>();
+  // Serializes changes so each one is built on, and written after, the one before it
+  let pendingChange: Promise<unknown> = Promise.resolve();
+
+  const commitKey = (release: { repo: string; branch: string; path_scope: string }, sha: string) =>
+    [release.repo, release.branch, release.path_scope, sha].join('\0');
+
+  const indexCommits = (release: ReleaseSlice, add: boolean) => {
+    for (const sha of release.commits_list) {
+      const key = commitKey(release, sha);
+      const ids = commitIndex.get(key) ?? new Set<string>();
+      if (add) {
+        ids.add(release.id);
+        commitIndex.set(key, ids);
+      } else {
+        ids.delete(release.id);
+        if (ids.size === 0) {
+          commitIndex.delete(key);
+        }
+      }
+    }
+  };
+
+  const readState = async (): Promise<StoreState> => {
+    if (!options.filePath) {
+      return { releases: [], revisions: [] };
+    }
+
+    try {
+      const data = JSON.parse(await readFile(options.filePath, 'utf8'));
+      // Files written before revisions existed hold a bare array of releases
+      return Array.isArray(data) ? { releases: data, revisions: [] } : data;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Release store read error:', error);
+        throw new DatabaseError('Unable to load changelog releases. Please refresh the page or try again later.');
+      }
+      return { releases: [], revisions: [] };
+    }
+  };
+
+  const loadState = (): Promise<StoreState> => {
+    loading ??= readState().then(
+      state => {
+        state.releases.forEach(release => indexCommits(release, true));
+        return state;
+      },
+      error => {
+        // Let the next request retry a failed read
+        loading = null;
+        throw error;
+      }
+    );
+    return loading;
+  };
+
+  const load = async (): Promise<ReleaseSlice[]> => (await loadState()).releases;
+
+  // Write the state a change would produce. Callers apply the change in memory only after this
+  // succeeds, so a failed write leaves memory and file in agreement.
+  const persist = async (next: StoreState): Promise<void> => {
+    const filePath = options.filePath;
+    if (!filePath) {
+      return;
+    }
+
+    try {
+      // Write to a temporary file first so a crash never leaves a truncated store behind
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(`${filePath}.tmp`, JSON.stringify(next, null, 2));
+      await rename(`${filePath}.tmp`, filePath);
+    } catch (error) {
+      console.error('Release store write error:', error);
+      throw new DatabaseError('Unable to save changelog. Please try again or contact support if the problem persists.');
+    }
+  };
+
+  const change = <T>(apply: (state: StoreState) => Promise<T>): Promise<T> => {
+    const result = pendingChange.then(async () => apply(await loadState()));
+    pendingChange = result.catch(() => undefined);
+    return result;
+  };
+
+  const isDeleted = (release: ReleaseSlice) => Boolean(release.deleted_at);
+  const isPublished = (release: ReleaseSlice) => !release.deleted_at && !release.unpublished_at;
+
+  // Records leave the store as copies so callers cannot mutate stored state
+  const copy = (release: ReleaseSlice): ReleaseSlice => structuredClone(release);
+
+  return {
+    backend: 'memory',
+    async listReleases(filter: ReleaseFilter = {}): Promise<ReleaseSlice[]> {
+      const matching = (await load())
+        .filter(release =>
+          !isDeleted(release) &&
+          (filter.includeUnpublished || isPublished(release)) &&
+          (!filter.repo || release.repo === filter.repo) &&
+          (!filter.branch || release.branch === filter.branch) &&
+          (filter.pathScope === undefined || release.path_scope === filter.pathScope) &&
+          (!filter.headTag || release.head_tag === filter.headTag)
+        )
+        .sort((a, b) => b.published_at.localeCompare(a.published_at));
+      return (filter.limit ? matching.slice(0, filter.limit) : matching).map(copy);
+    },
+    async getRelease(id: string): Promise<ReleaseSlice | null> {
+      const release = (await load()).find(candidate => candidate.id === id && !isDeleted(candidate));
+      return release ? copy(release) : null;
+    },
+    async createRelease(release: NewReleaseSlice): Promise<ReleaseSlice> {
+      const stored: ReleaseSlice = {
+        ...structuredClone(release),
+        id: randomUUID(),
+        published_at: new Date().toISOString(),
+      };
+      return change(async state => {
+        await persist({ ...state, releases: [...state.releases, stored] });
+        state.releases.push(stored);
+        indexCommits(stored, true);
+        return copy(stored);
+      });
+    },
+    async updateRelease(id: string, changes: Partial<NewReleaseSlice>): Promise<ReleaseSlice | null> {
+      return change(async state => {
+        const stored = state.releases.find(candidate => candidate.id === id && !isDeleted(candidate));
+        if (!stored) {
+          return null;
+        }
+        const updated: ReleaseSlice = { ...stored, ...structuredClone(changes) };
+        await persist({ ...state, releases: state.releases.map(candidate => candidate === stored ? updated : candidate) });
+        indexCommits(stored, false);
+        Object.assign(stored, updated);
+        indexCommits(stored, true);
+        return copy(stored);
+      });
+    },
+    async findOverlappingReleases(query: OverlapQuery): Promise<ReleaseOverlap[]> {
+      const all = await load();
+      const shasByRelease = new Map<string, string[]>();
+      for (const sha of new Set(query.shas)) {
+        for (const id of commitIndex.get(commitKey({ ...query, path_scope: query.pathScope }, sha)) ?? []) {
+          shasByRelease.set(id, [...(shasByRelease.get(id) ?? []), sha]);
+        }
+      }
+
+      return all
+        .filter(release => shasByRelease.has(release.id) && isPublished(release))
+        .sort((a, b) => b.published_at.localeCompare(a.published_at))
+        .map(release => ({
+          id: release.id,
+          publishedAt: release.published_at,
+          version: release.version || release.head_tag || null,
+          shas: shasByRelease.get(release.id)!,
+        }));
+    },
+    async listRevisions(releaseId: string): Promise<ReleaseRevision[]> {
+      return (await loadState()).revisions
+        .filter(revision => revision.release_id === releaseId)
+        .sort((a, b) => a.revision - b.revision)
+        .map(revision => structuredClone(revision));
+    },
+    async getRevision(releaseId: string, revision: number): Promise<ReleaseRevision | null> {
+      const stored = (await loadState()).revisions.find(candidate => candidate.release_id === releaseId && candidate.revision === revision);
+      return stored ? structuredClone(stored) : null;
+    },
+    async createRevision(revision: NewReleaseRevision): Promise<ReleaseRevision> {
+      return change(async state => {
+        const latest = Math.max(0, ...state.revisions.filter(candidate => candidate.release_id === revision.release_id).map(candidate => candidate.revision));
+        const stored: ReleaseRevision = {
+          ...structuredClone(revision),
+          id: randomUUID(),
+          revision: latest + 1,
+          created_at: revision.created_at ?? new Date().toISOString(),
+        };
+        await persist({ ...state, revisions: [...state.revisions, stored] });
+        state.revisions.push(stored);
+        return structuredClone(stored);
+      });
+    },
+    async editReleaseMarkdown(id: string, changes: ReleaseMarkdownChanges, revision: ReleaseEditAttribution): Promise<ReleaseSlice | null> {
+      return change(async state => {
+        const stored = state.releases.find(candidate => candidate.id === id && !isDeleted(candidate));
+        if (!stored) {
+          return null;
+        }
+
+        const history = state.revisions.filter(candidate => candidate.release_id === id);
+        const added: ReleaseRevision[] = [];
+        if (history.length === 0) {
+          added.push({ id: randomUUID(), release_id: id, revision: 1, markdown: stored.markdown, author: null, restored_from: null, created_at: stored.published_at });
+        }
+        added.push({
+          ...structuredClone(revision),
+          id: randomUUID(),
+          release_id: id,
+          revision: Math.max(0, ...history.map(candidate => candidate.revision)) + added.length + 1,
+          markdown: changes.markdown,
+          created_at: new Date().toISOString(),
+        });
+
+        const updated: ReleaseSlice = { ...stored, ...structuredClone(changes) };
+        await persist({
+          releases: state.releases.map(candidate => candidate === stored ? updated : candidate),
+          revisions: [...state.revisions, ...added],
+        });
+        Object.assign(stored, updated);
+        state.revisions.push(...added);
+        return copy(stored);
+      });
+    },
+  };
+}
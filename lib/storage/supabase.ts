@@ -0,0 +1,176 @@
+import { createClient } from '@supabase/supabase-js';
+import { DatabaseError } from '@/lib/errors';
+import {
+  NewReleaseRevision,
+  OverlapQuery,
+  ReleaseEditAttribution,
+  ReleaseFilter,
+  ReleaseMarkdownChanges,
+  ReleaseOverlap,
+  ReleaseRevision,
+  ReleaseSlice,
+  ReleaseStore,
+} from './types';
+
+const TABLE = 'release_slices';
+const REVISIONS_TABLE = 'release_revisions';
+
+// .single() reports a missing row as PGRST116
+const NO_ROWS = 'PGRST116';
+
+// SHAs per overlap query; filters travel in the URL, so very large ranges are split
+const OVERLAP_QUERY_BATCH = 100;
+
+export function createSupabaseReleaseStore(env: { url: string; serviceRoleKey: string }): ReleaseStore {
+  const supabase = createClient(env.url, env.serviceRoleKey);
+
+  return {
+    backend: 'supabase',
+    async listReleases(filter: ReleaseFilter = {}): Promise<ReleaseSlice[]> {
+      let query = supabase.from(TABLE).select('*').is('deleted_at', null);
+      if (!filter.includeUnpublished) {
+        query = query.is('unpublished_at', null);
+      }
+      if (filter.repo) {
+        query = query.eq('repo', filter.repo);
+      }
+      if (filter.branch) {
+        query = query.eq('branch', filter.branch);
+      }
+      if (filter.pathScope !== undefined) {
+        query = query.eq('path_scope', filter.pathScope);
+      }
+      if (filter.headTag) {
+        query = query.eq('head_tag', filter.headTag);
+      }
+
+      let ordered = query.order('published_at', { ascending: false });
+      if (filter.limit) {
+        ordered = ordered.limit(filter.limit);
+      }
+
+      const { data, error } = await ordered;
+      if (error) {
+        console.error('Database error:', error);
+        throw new DatabaseError('Unable to load changelog releases. Please refresh the page or try again later.');
+      }
+      return (data || []) as ReleaseSlice[];
+    },
+    async getRelease(id: string): Promise<ReleaseSlice | null> {
+      const { data, error } = await supabase.from(TABLE).select('*').eq('id', id).is('deleted_at', null).single();
+      if (error && error.code !== NO_ROWS) {
+        console.error('Database error:', error);
+        throw new DatabaseError('Unable to load changelog. Please refresh the page or try again later.');
+      }
+      return (data as ReleaseSlice) ?? null;
+    },
+    async createRelease(release) {
+      const { data, error } = await supabase.from(TABLE).insert(release).select().single();
+      if (error) {
+        console.error('Database insert error:', error);
+        throw new DatabaseError('Unable to save changelog. Please try again or contact support if the problem persists.');
+      }
+      return data as ReleaseSlice;
+    },
+    async updateRelease(id, changes) {
+      const { data, error } = await supabase.from(TABLE).update(changes).eq('id', id).is('deleted_at', null).select().single();
+      if (error && error.code !== NO_ROWS) {
+        console.error('Database update error:', error);
+        throw new DatabaseError('Unable to update changelog. Please try again or contact support if the problem persists.');
+      }
+      return (data as ReleaseSlice) ?? null;
+    },
+    async findOverlappingReleases(query: OverlapQuery): Promise<ReleaseOverlap[]> {
+      const overlaps = new Map<string, ReleaseOverlap>();
+      const queried = new Set(query.shas);
+
+      // commits_list && {shas} is answered by the GIN index on commits_list
+      for (let i = 0; i < query.shas.length; i += OVERLAP_QUERY_BATCH) {
+        const { data, error } = await supabase
+          .from(TABLE)
+          .select('id, published_at, version, head_tag, commits_list')
+          .eq('repo', query.repo)
+          .eq('branch', query.branch)
+          .eq('path_scope', query.pathScope)
+          .is('unpublished_at', null)
+          .is('deleted_at', null)
+          .overlaps('commits_list', query.shas.slice(i, i + OVERLAP_QUERY_BATCH));
+
+        if (error) {
+          console.error('Database overlap check error:', error);
+          throw new DatabaseError('Unable to check for existing changelogs. Please try again or contact support if the problem persists.');
+        }
+
+        for (const release of data || []) {
+          if (!overlaps.has(release.id)) {
+            overlaps.set(release.id, {
+              id: release.id,
+              publishedAt: release.published_at,
+              version: release.version || release.head_tag || null,
+              shas: (release.commits_list as string[]).filter(sha => queried.has(sha)),
+            });
+          }
+        }
+      }
+
+      return [...overlaps.values()].sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+    },
+    async listRevisions(releaseId: string): Promise<ReleaseRevision[]> {
+      const { data, error } = await supabase
+        .from(REVISIONS_TABLE)
+        .select('*')
+        .eq('release_id', releaseId)
+        .order('revision', { ascending: true });
+      if (error) {
+        console.error('Database revision error:', error);
+        throw new DatabaseError('Unable to load changelog history. Please refresh the page or try again later.');
+      }
+      return (data || []) as ReleaseRevision[];
+    },
+    async getRevision(releaseId: string, revision: number): Promise<ReleaseRevision | null> {
+      const { data, error } = await supabase
+        .from(REVISIONS_TABLE)
+        .select('*')
+        .eq('release_id', releaseId)
+        .eq('revision', revision)
+        .single();
+      if (error && error.code !== NO_ROWS) {
+        console.error('Database revision error:', error);
+        throw new DatabaseError('Unable to load changelog history. Please refresh the page or try again later.');
+      }
+      return (data as ReleaseRevision) ?? null;
+    },
+    async createRevision(revision: NewReleaseRevision): Promise<ReleaseRevision> {
+      // The release_revisions_number trigger assigns the next revision number
+      const { data, error } = await supabase
+        .from(REVISIONS_TABLE)
+        .insert(revision)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Database revision insert error:', error);
+        throw new DatabaseError('Unable to save changelog history. Please try again or contact support if the problem persists.');
+      }
+      return data as ReleaseRevision;
+    },
+    async editReleaseMarkdown(id: string, changes: ReleaseMarkdownChanges, revision: ReleaseEditAttribution): Promise<ReleaseSlice | null> {
+      // One transaction in the edit_release_markdown function (see API_README)
+      const { data, error } = await supabase
+        .rpc('edit_release_markdown', {
+          p_release_id: id,
+          p_markdown: changes.markdown,
+          p_has_breaking_changes: changes.has_breaking_changes,
+          p_author: revision.author,
+          p_restored_from: revision.restored_from,
+        })
+        .maybeSingle();
+
+      if (error) {
+        console.error('Database edit error:', error);
+        throw new DatabaseError('Unable to save changelog. Please try again or contact support if the problem persists.');
+      }
+      return (data as ReleaseSlice) ?? null;
+    },
+  };
+}
@@ -0,0 +1,100 @@
+// A published changelog, one row of the release_slices table
+export interface ReleaseSlice {
+  id: string;
+  published_at: string;
+  repo: string;
+  branch: string;
+  mode: 'date' | 'sha' | 'tag';
+  start_date?: string;
+  end_date?: string;
+  base_sha?: string;
+  head_sha?: string;
+  base_tag?: string;
+  head_tag?: string;
+  markdown: string;
+  commits_list: string[]; // Array of commit SHAs
+  has_breaking_changes: boolean;
+  version?: string;
+  include_paths: string[];
+  exclude_paths: string[];
+  path_scope: string; // Normalized include/exclude key, '' for the whole repository
+  unpublished_at?: string | null; // Hidden from readers until republished
+  deleted_at?: string | null; // Soft-deleted; the row is kept for history but never returned
+  owner_id?: string;
+  verified_publisher?: boolean; // Publisher proved write access to the repository when publishing
+  private_repo?: boolean; // Only shown to users whose GitHub token can see the repository
+}
+
+// Fields supplied when publishing; id and published_at are assigned by the store
+export type NewReleaseSlice = Omit<ReleaseSlice, 'id' | 'published_at'>;
+
+// Snapshot of a release's markdown, one row of the release_revisions table.
+// Revision 1 is the published text; every edit or restore appends the next one.
+export interface ReleaseRevision {
+  id: string;
+  release_id: string;
+  revision: number;
+  markdown: string;
+  author: string | null;
+  restored_from: number | null; // Revision this one restored, if any
+  created_at: string;
+}
+
+// id and revision are assigned by the store; created_at defaults to now
+export type NewReleaseRevision = Omit<ReleaseRevision, 'id' | 'revision' | 'created_at'> & { created_at?: string };
+
+// What a markdown edit changes on the release, and what its revision records besides the text
+export type ReleaseMarkdownChanges = Pick<ReleaseSlice, 'markdown' | 'has_breaking_changes'>;
+export type ReleaseEditAttribution = Pick<ReleaseRevision, 'author' | 'restored_from'>;
+
+export interface ReleaseFilter {
+  repo?: string;
+  branch?: string;
+  pathScope?: string;
+  headTag?: string;
+  limit?: number;
+  // Unpublished releases are left out unless requested; deleted ones always are
+  includeUnpublished?: boolean;
+}
+
+// Published commits a new range would repeat
+export interface OverlapQuery {
+  repo: string;
+  branch: string;
+  pathScope: string;
+  shas: string[];
+}
+
+// An existing release that already covers some of the queried commits
+export interface ReleaseOverlap {
+  id: string;
+  publishedAt: string;
+  version: string | null; // Published version, falling back to the head tag
+  shas: string[]; // Queried SHAs this release already includes
+}
+
+export const STORAGE_BACKENDS = ['supabase', 'memory'] as const;
+
+export type StorageBackend = typeof STORAGE_BACKENDS[number];
+
+// Persistence for published releases. Implementations throw DatabaseError on storage failures.
+export interface ReleaseStore {
+  backend: StorageBackend;
+  // Matching releases, newest first
+  listReleases(filter?: ReleaseFilter): Promise<ReleaseSlice[]>;
+  // Published or unpublished release by id; soft-deleted releases resolve to null
+  getRelease(id: string): Promise<ReleaseSlice | null>;
+  createRelease(release: NewReleaseSlice): Promise<ReleaseSlice>;
+  // Resolves to null when no (non-deleted) release has the given id
+  updateRelease(id: string, changes: Partial<NewReleaseSlice>): Promise<ReleaseSlice | null>;
+  // Published releases in the same repository, branch and path scope that include any of the SHAs, newest first
+  findOverlappingReleases(query: OverlapQuery): Promise<ReleaseOverlap[]>;
+  // Revisions of a release, oldest first
+  listRevisions(releaseId: string): Promise<ReleaseRevision[]>;
+  getRevision(releaseId: string, revision: number): Promise<ReleaseRevision | null>;
+  createRevision(revision: NewReleaseRevision): Promise<ReleaseRevision>;
+  // Replace a release's markdown and append it as the next revision in one atomic step. A release
+  // without revisions first gets its current text recorded as revision 1. Null when no
+  // (non-deleted) release has the given id.
+  editReleaseMarkdown(id: string, changes: ReleaseMarkdownChanges, revision: ReleaseEditAttribution): Promise<ReleaseSlice | null>;
+}
@@ -0,0 +1,58 @@
+// schema.org JSON-LD for the public changelog and release pages
+
+import type { PublicRelease } from '@/lib/releases';
+import { SITE_NAME } from '@/lib/site';
+
+type JsonLd = Record<string, unknown>;
+
+export function releaseTitle(release: PublicRelease): string {
+  return `${release.repo} ${release.tag || release.range}`;
+}
+
+// The GitHub repository a changelog belongs to
+function sourceCode(repo: string): JsonLd {
+  return {
+    '@type': 'SoftwareSourceCode',
+    name: repo,
+    codeRepository: `https://github.com/${repo}`,
+  };
+}
+
+// A single release's notes, with its own page as url
+export function releaseStructuredData(release: PublicRelease, url: string, description: string): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'TechArticle',
+    headline: releaseTitle(release),
+    description,
+    url,
+    datePublished: release.publishedAt,
+    publisher: { '@type': 'Organization', name: SITE_NAME },
+    about: sourceCode(release.repo),
+  };
+}
+
+// A repository's changelog page listing its releases, newest first
+export function changelogStructuredData(repo: string, url: string, releases: { release: PublicRelease; url: string }[]): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'CollectionPage',
+    name: `${repo} changelog`,
+    url,
+    about: sourceCode(repo),
+    mainEntity: {
+      '@type': 'ItemList',
+      itemListElement: releases.map(({ release, url: releaseUrl }, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        url: releaseUrl,
+        name: release.tag || release.range,
+      })),
+    },
+  };
+}
+
+// Serializes JSON-LD for a <script> tag; "<" is escaped so markdown cannot close the tag early
+export function serializeJsonLd(data: JsonLd): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
@@ -9,6 +9,14 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // Per-repository feeds live next to the changelog page; query parameters such as ?branch= carry over
+  async rewrites() {
+    return [
+      { source: '/:owner/:repo/feed.xml', destination: '/api/feed?repo=:owner/:repo&format=rss' },
+      { source: '/:owner/:repo/atom.xml', destination: '/api/feed?repo=:owner/:repo&format=atom' },
+      { source: '/:owner/:repo/feed.json', destination: '/api/feed?repo=:owner/:repo&format=json' },
+    ]
+  },
 }
 
 export default nextConfig
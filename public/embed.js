@@ -0,0 +1,55 @@
+/*
+ * Relix changelog widget. Add it where the widget should appear:
+ *
+ *   <script src="https://<relix host>/embed.js" data-repo="owner/name" async></script>
+ *
+ * Optional attributes: data-branch (the repository's default branch when unset), data-limit
+ * (releases shown, 5 by default, at most 20), data-theme ("light", "dark" or "auto", the default)
+ * and data-compact (any value shows short previews instead of full release notes).
+ *
+ * The iframe grows to fit its content. When releases were published since the reader's last visit,
+ * the container element fires a "relix:new-releases" event with the count in event.detail.count,
+ * e.g. to badge a "What's new" button.
+ */
+(function () {
+  var script = document.currentScript;
+  if (!script || !script.getAttribute('data-repo')) {
+    console.error('Relix embed: the script tag needs a data-repo="owner/name" attribute');
+    return;
+  }
+
+  var repo = script.getAttribute('data-repo');
+  var origin = new URL(script.src).origin;
+  var query = new URLSearchParams();
+  ['branch', 'limit', 'theme'].forEach(function (name) {
+    var value = script.getAttribute('data-' + name);
+    if (value) {
+      query.set(name, value);
+    }
+  });
+  if (script.hasAttribute('data-compact')) {
+    query.set('compact', '1');
+  }
+
+  var container = document.createElement('div');
+  container.className = 'relix-changelog';
+
+  var iframe = document.createElement('iframe');
+  iframe.src = origin + '/embed/' + repo.split('/').map(encodeURIComponent).join('/') + '?' + query;
+  iframe.title = repo + ' changelog';
+  iframe.loading = 'lazy';
+  iframe.style.cssText = 'display:block;width:100%;height:200px;border:0;color-scheme:normal;';
+  container.appendChild(iframe);
+  script.parentNode.insertBefore(container, script.nextSibling);
+
+  window.addEventListener('message', function (event) {
+    if (event.origin !== origin || event.source !== iframe.contentWindow || !event.data) {
+      return;
+    }
+    if (event.data.type === 'relix:resize' && typeof event.data.height === 'number') {
+      iframe.style.height = Math.ceil(event.data.height) + 'px';
+    } else if (event.data.type === 'relix:new-releases' && typeof event.data.count === 'number') {
+      container.dispatchEvent(new CustomEvent('relix:new-releases', { detail: { count: event.data.count }, bubbles: true }));
+    }
+  });
+})();